@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Gauge, MapPin, Settings } from 'lucide-react-native';
+import { Gauge, MapPin, Settings, History } from 'lucide-react-native';
 
 export default function TabLayout() {
   return (
@@ -41,6 +41,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
+          tabBarIcon: ({ size, color }) => (
+            <History size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
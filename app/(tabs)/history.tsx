@@ -0,0 +1,445 @@
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert } from 'react-native';
+import { useState } from 'react';
+import { Search, Trash2, Gauge, MapPin, Download } from 'lucide-react-native';
+import { useTripHistory } from '@/hooks/useTripHistory';
+import { SavedTrip, TripPeriod, loadTripTrack, searchTrips, summarizeTrips } from '@/utils/tripHistory';
+import { nightSurchargePercent } from '@/utils/tariff';
+import { SEGMENT_LABELS, segmentSeconds } from '@/utils/meterSegments';
+import { DISTANCE_SOURCE_LABELS, describeDistanceOverride } from '@/utils/manualDistance';
+import { TRACK_MIME_TYPES, TrackFormat, formatTrack, trackFilename } from '@/utils/trackFormats';
+import { shareFile } from '@/utils/share';
+import { confirmAsync } from '@/utils/confirm';
+import { noFocusOutline } from '@/utils/styles';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function HistoryScreen() {
+  const { trips, isLoading, removeTrip } = useTripHistory();
+  const [query, setQuery] = useState('');
+  const [period, setPeriod] = useState<TripPeriod>('week');
+  const [expandedTripId, setExpandedTripId] = useState<string | null>(null);
+
+  const filteredTrips = searchTrips(trips, query);
+  const totals = summarizeTrips(filteredTrips, period).slice(0, 6);
+
+  const handleDeleteTrip = async (trip: SavedTrip) => {
+    const confirmed = await confirmAsync(
+      'Delete Trip',
+      `Delete the trip from ${formatDate(trip.startedAt)}?`,
+      { confirmText: 'Delete', destructive: true }
+    );
+    if (confirmed) {
+      removeTrip(trip.id).catch(() => Alert.alert('Error', 'Failed to delete trip'));
+    }
+  };
+
+  const handleExportTrack = async (trip: SavedTrip, format: TrackFormat) => {
+    try {
+      const track = await loadTripTrack(trip.id);
+      if (track.length === 0) {
+        Alert.alert('Track unavailable', 'The GPS track of this trip is no longer stored');
+        return;
+      }
+      const contents = formatTrack(track, format, `Aye Auto trip ${formatDate(trip.startedAt)}`);
+      await shareFile(contents, trackFilename(trip.startedAt, format), TRACK_MIME_TYPES[format]);
+    } catch {
+      Alert.alert('Error', 'Failed to export the track');
+    }
+  };
+
+  const renderTrip = (trip: SavedTrip) => {
+    const isExpanded = expandedTripId === trip.id;
+    const Icon = trip.kind === 'meter' ? Gauge : MapPin;
+
+    return (
+      <TouchableOpacity
+        key={trip.id}
+        style={styles.tripCard}
+        onPress={() => setExpandedTripId(isExpanded ? null : trip.id)}
+        activeOpacity={0.8}
+      >
+        <View style={styles.tripHeader}>
+          <Icon size={18} color="#FF6B35" />
+          <View style={styles.tripHeaderContent}>
+            <Text style={styles.tripTitle} numberOfLines={1}>
+              {trip.source || trip.destination
+                ? [trip.source ?? '—', ...(trip.stops ?? []), trip.destination ?? '—'].join(' → ')
+                : trip.kind === 'meter' ? 'Metered ride' : 'Trip estimate'}
+            </Text>
+            <Text style={styles.tripMeta}>
+              {formatDate(trip.startedAt)} · {trip.kind === 'meter' ? 'Meter' : 'Estimate'} · {trip.tariff.name}
+            </Text>
+          </View>
+          <Text style={styles.tripFare}>₹{trip.fare.toFixed(2)}</Text>
+        </View>
+
+        <View style={styles.tripStats}>
+          <Text style={styles.tripStat}>
+            {trip.distanceKm.toFixed(2)} km
+            {trip.distanceSource && trip.distanceSource !== 'gps' ? ` (${DISTANCE_SOURCE_LABELS[trip.distanceSource]})` : ''}
+          </Text>
+          <Text style={styles.tripStat}>{formatDuration(trip.durationSeconds)}</Text>
+          {trip.waitingSeconds > 0 && (
+            <Text style={styles.tripStat}>Waiting {formatDuration(trip.waitingSeconds)}</Text>
+          )}
+        </View>
+
+        {isExpanded && (
+          <View style={styles.tripDetails}>
+            <View style={styles.breakdownRow}>
+              <Text style={styles.breakdownText}>Minimum fare (first {trip.tariff.baseDistance} km)</Text>
+              <Text style={styles.breakdownAmount}>₹{trip.breakdown.minimumFare.toFixed(2)}</Text>
+            </View>
+            {trip.breakdown.slabCharges.map((charge) => (
+              <View key={charge.fromKm} style={styles.breakdownRow}>
+                <Text style={styles.breakdownText}>
+                  {(charge.toKm - charge.fromKm).toFixed(2)} km @ ₹{charge.ratePerKm}/km
+                </Text>
+                <Text style={styles.breakdownAmount}>₹{charge.amount.toFixed(2)}</Text>
+              </View>
+            ))}
+            {trip.breakdown.waitingCharge > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={styles.breakdownText}>
+                  Waiting ({trip.breakdown.chargeableWaitingMinutes.toFixed(1)} min)
+                </Text>
+                <Text style={styles.breakdownAmount}>₹{trip.breakdown.waitingCharge.toFixed(2)}</Text>
+              </View>
+            )}
+            {trip.breakdown.nightSurcharge > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={styles.breakdownText}>Night surcharge ({nightSurchargePercent(trip.tariff)}%)</Text>
+                <Text style={styles.breakdownAmount}>₹{trip.breakdown.nightSurcharge.toFixed(2)}</Text>
+              </View>
+            )}
+            {trip.segments && trip.segments.length > 1 && trip.segments.map((segment) => (
+              <View key={segment.startedAt} style={styles.breakdownRow}>
+                <Text style={styles.breakdownText}>
+                  {SEGMENT_LABELS[segment.mode]} {formatDuration(segmentSeconds(segment, trip.endedAt))}
+                </Text>
+                <Text style={styles.breakdownText}>
+                  {segment.distanceKm.toFixed(2)} km
+                  {segment.waitingSeconds > 0 ? ` · ${formatDuration(segment.waitingSeconds)} wait` : ''}
+                </Text>
+              </View>
+            ))}
+            {trip.distanceOverride && (
+              <Text style={styles.tripMeta}>Distance: {describeDistanceOverride(trip.distanceOverride)}</Text>
+            )}
+            <Text style={styles.tripMeta}>
+              Ended {formatDate(trip.endedAt)}
+              {trip.trackPointCount > 0 ? ` · ${trip.trackPointCount} GPS points` : ''}
+            </Text>
+
+            <View style={styles.tripActions}>
+              {trip.trackPointCount > 0 && (
+                <>
+                  <TouchableOpacity style={styles.tripAction} onPress={() => handleExportTrack(trip, 'gpx')}>
+                    <Download size={16} color="#1565C0" />
+                    <Text style={styles.exportButtonText}>GPX</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.tripAction} onPress={() => handleExportTrack(trip, 'geojson')}>
+                    <Download size={16} color="#1565C0" />
+                    <Text style={styles.exportButtonText}>GeoJSON</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity style={styles.tripAction} onPress={() => handleDeleteTrip(trip)}>
+                <Trash2 size={16} color="#F44336" />
+                <Text style={styles.deleteButtonText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Aye Auto</Text>
+        <Text style={styles.subtitle}>Trip History</Text>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Search size={18} color="#999999" />
+        <TextInput
+          style={[styles.searchInput, noFocusOutline]}
+          placeholder="Search by place, tariff or date"
+          placeholderTextColor="#999999"
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+          selectionColor="#FF6B35"
+        />
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Totals</Text>
+          <View style={styles.periodToggle}>
+            {(['week', 'month'] as TripPeriod[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, period === option && styles.chipSelected]}
+                onPress={() => setPeriod(option)}
+              >
+                <Text style={[styles.chipText, period === option && styles.chipTextSelected]}>
+                  {option === 'week' ? 'Weekly' : 'Monthly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {totals.length === 0 ? (
+          <Text style={styles.emptyText}>No metered rides yet</Text>
+        ) : (
+          totals.map((total) => (
+            <View key={total.key} style={styles.totalCard}>
+              <View style={styles.tripHeaderContent}>
+                <Text style={styles.totalLabel}>{total.label}</Text>
+                <Text style={styles.tripMeta}>
+                  {total.tripCount} {total.tripCount === 1 ? 'ride' : 'rides'} · {total.distanceKm.toFixed(1)} km
+                </Text>
+              </View>
+              <Text style={styles.tripFare}>₹{total.fare.toFixed(2)}</Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Trips</Text>
+        {isLoading ? (
+          <Text style={styles.emptyText}>Loading trips...</Text>
+        ) : filteredTrips.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {query ? 'No trips match your search' : 'Trips you meter or save from the planner will show up here'}
+          </Text>
+        ) : (
+          filteredTrips.map(renderTrip)
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 30,
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+    paddingVertical: 14,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+    marginBottom: 12,
+  },
+  periodToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF3EE',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+  },
+  chipTextSelected: {
+    color: '#FF6B35',
+  },
+  totalCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginBottom: 2,
+  },
+  tripCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  tripHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tripHeaderContent: {
+    flex: 1,
+  },
+  tripTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginBottom: 2,
+  },
+  tripMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+  },
+  tripFare: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+  },
+  tripStats: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+    marginLeft: 30,
+  },
+  tripStat: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+  },
+  tripDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  breakdownText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    flex: 1,
+  },
+  breakdownAmount: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+  },
+  tripActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 20,
+  },
+  tripAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  exportButtonText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+  },
+  deleteButtonText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#F44336',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -1,90 +1,158 @@
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
-import { useState, useCallback, useEffect } from 'react';
-import { Search, MapPin, Navigation, Clock } from 'lucide-react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useFareCalculator, isNightTime } from '@/hooks/useFareCalculator';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, TextInput } from 'react-native';
+import { useState, useCallback, useRef } from 'react';
+import { Search, MapPin, Navigation, Clock, Save, Share2, Plus, X, ArrowUp, CircleDot } from 'lucide-react-native';
+import { useFareSettings } from '@/hooks/useFareSettings';
 import PlaceAutocomplete from '@/components/PlaceAutocomplete';
-import { useGooglePlaces } from '@/hooks/useGooglePlaces';
+import {
+  Geocoder,
+  RouteLocation,
+  RouteResult,
+  createRoutingProvider,
+  loadRoutingSettings,
+  resolveCoordinates,
+  routeStops,
+} from '@/services/routing';
+import { Coordinates, PlaceSuggestion, createPlaceSearchProvider, loadPlaceSearchSettings } from '@/services/places';
+import { getGoogleMapsConfig } from '@/services/googleMaps';
+import { saveTrip, createTripId } from '@/utils/tripHistory';
+import { Receipt, createEstimateReceipt } from '@/utils/receipt';
+import FareReceipt from '@/components/FareReceipt';
+import GoogleMapsNotice from '@/components/GoogleMapsNotice';
+import LeafletMap from '@/components/LeafletMap';
+import { MapData } from '@/utils/mapHtml';
+import { estimateTraffic } from '@/utils/trafficEstimate';
+import {
+  calculateFare,
+  calculateFareBreakdown,
+  describeNightWindow,
+  nightSurchargePercent,
+  planNightFraction,
+  splitFareByLeg,
+} from '@/utils/tariff';
+import { noFocusOutline } from '@/utils/styles';
 
-interface FareSettings {
-  baseFare: number;
-  baseDistance: number;
-  ratePerKm: number;
+// An intermediate stop as typed in the form, waiting minutes stay text until the estimate
+interface StopInput {
+  id: string;
+  address: string;
+  coordinates?: Coordinates;
+  waitInput: string;
 }
 
-const DEFAULT_SETTINGS: FareSettings = {
-  baseFare: 30,
-  baseDistance: 1.5,
-  ratePerKm: 15,
+interface PlannedLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  durationMinutes: number;
+  durationInTrafficMinutes?: number;
+  waitingMinutes: number; // Waiting at the stop the leg ends at
+}
+
+const parseWaitMinutes = (value: string): number => Math.max(0, parseFloat(value) || 0);
+
+// Parses "HH:MM" (24-hour) into the next occurrence of that time, or null for blank/invalid input
+const parseDepartureTime = (value: string, now: Date): Date | null => {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  const departure = new Date(now);
+  departure.setHours(hours, minutes, 0, 0);
+  if (departure.getTime() < now.getTime() - 60000) {
+    departure.setDate(departure.getDate() + 1); // Earlier than now means tomorrow
+  }
+  return departure;
+};
+
+// Google's Distance Matrix returns no path, so those legs get a dashed line between the geocoded stops.
+// Alternative routes that weren't picked are drawn in grey underneath.
+const buildRouteMap = async (
+  legs: RouteResult[],
+  geocode: Geocoder,
+  stops: RouteLocation[],
+  otherRoutes: RouteResult[] = []
+): Promise<MapData | null> => {
+  const hasPath = (leg?: RouteResult) => !!leg && leg.geometry.length > 1;
+  const points = await Promise.all(stops.map((stop, index) => {
+    const outgoing = legs[index];
+    const incoming = legs[index - 1];
+    if (hasPath(outgoing)) return outgoing.geometry[0];
+    if (hasPath(incoming)) return incoming.geometry[incoming.geometry.length - 1];
+    return resolveCoordinates(stop, geocode);
+  }));
+  if (points.some(point => !point)) return null;
+  const located = points as Coordinates[];
+
+  return {
+    markers: located.map((coordinates, index) => {
+      if (index === 0) return { coordinates, color: '#4CAF50', label: 'Pickup' };
+      if (index === located.length - 1) return { coordinates, color: '#F44336', label: 'Drop' };
+      return { coordinates, color: '#FF9800', label: `Stop ${index}` };
+    }),
+    polylines: [
+      ...otherRoutes.filter(route => hasPath(route)).map(route => ({ points: route.geometry, color: '#9E9E9E' })),
+      ...legs.map((leg, index) => ({
+        points: hasPath(leg) ? leg.geometry : [located[index], located[index + 1]],
+        color: '#1565C0',
+        dashed: !hasPath(leg),
+      })),
+    ],
+  };
 };
 
 export default function TripPlannerScreen() {
   const [source, setSource] = useState('');
   const [destination, setDestination] = useState('');
+  // Set when the place came with a position (search result, current location or pin), cleared on typing
+  const [sourceCoordinates, setSourceCoordinates] = useState<Coordinates | undefined>();
+  const [destinationCoordinates, setDestinationCoordinates] = useState<Coordinates | undefined>();
   const [estimatedDistance, setEstimatedDistance] = useState(0);
-  const [estimatedTime, setEstimatedTime] = useState(0);
   const [showResults, setShowResults] = useState(false);
-  const [focusedInput, setFocusedInput] = useState<'source' | 'destination' | null>(null);
+  const [stops, setStops] = useState<StopInput[]>([]);
+  const [legs, setLegs] = useState<PlannedLeg[]>([]);
+  const [alternatives, setAlternatives] = useState<RouteResult[]>([]); // Only for trips without stops
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  const mapContextRef = useRef<{ geocode: Geocoder; locations: RouteLocation[] } | null>(null);
+  const [focusedInput, setFocusedInput] = useState<string | null>(null); // 'source', 'destination' or a stop id
   const [isLoading, setIsLoading] = useState(false);
-  const [fareSettings, setFareSettings] = useState<FareSettings>(DEFAULT_SETTINGS);
-  
-  const { calculateFareForDistance } = useFareCalculator();
-  const { calculateDistanceAndTime } = useGooglePlaces();
+  const [departureInput, setDepartureInput] = useState('');
+  const [isEstimateSaved, setIsEstimateSaved] = useState(false);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [routeMap, setRouteMap] = useState<MapData | null>(null);
+  // Follows Settings as soon as a new tariff is saved
+  const fareSettings = useFareSettings();
 
-  const isNightForTrip = isNightTime();
-  const [estimatedFare, setEstimatedFare] = useState(0);
+  const plannedDeparture = parseDepartureTime(departureInput, new Date());
+  const isDepartureInvalid = departureInput.trim().length > 0 && !plannedDeparture;
+  const departureTime = plannedDeparture ?? new Date();
+  // Time lost to traffic is charged as waiting, on top of any waiting the user planned at stops
+  const legTraffic = legs.map(leg => estimateTraffic(leg, departureTime));
+  const stopWaitingMinutes = legs.reduce((sum, leg) => sum + leg.waitingMinutes, 0);
+  const trafficWaitingMinutes = legTraffic.reduce((sum, traffic) => sum + traffic.predictedWaitingMinutes, 0);
+  const plannedWaitingMinutes = stopWaitingMinutes + trafficWaitingMinutes;
+  const tripMinutes = legTraffic.reduce((sum, traffic) => sum + traffic.trafficMinutes, 0) + stopWaitingMinutes;
+  const nightFraction = planNightFraction(fareSettings.night, departureTime, tripMinutes);
 
-  // Load fare settings when component mounts
-  useEffect(() => {
-    loadFareSettings();
+  const handleSourceSelect = useCallback((place: PlaceSuggestion) => {
+    setSource(place.description);
+    setSourceCoordinates(place.coordinates);
   }, []);
 
-  // Listen for settings changes and update fare automatically
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      const savedSettings = await AsyncStorage.getItem('fareSettings');
-      if (savedSettings) {
-        const newSettings = JSON.parse(savedSettings);
-        // Check if settings have changed
-        if (JSON.stringify(newSettings) !== JSON.stringify(fareSettings)) {
-          setFareSettings(newSettings);
-          // If we have results showing, recalculate the fare
-          if (showResults && estimatedDistance > 0) {
-            const updatedFare = await calculateFareForDistance(estimatedDistance, isNightForTrip);
-            setEstimatedFare(updatedFare);
-          }
-        }
-      }
-    }, 1000); // Check every second
-
-    return () => clearInterval(interval);
-  }, [fareSettings, showResults, estimatedDistance, isNightForTrip, calculateFareForDistance]);
-
-  const loadFareSettings = async () => {
-    try {
-      const savedSettings = await AsyncStorage.getItem('fareSettings');
-      if (savedSettings) {
-        setFareSettings(JSON.parse(savedSettings));
-      }
-    } catch (error) {
-      console.error('Error loading fare settings:', error);
-    }
-  };
-
-  useEffect(() => {
-    const updateFare = async () => {
-      const fare = await calculateFareForDistance(estimatedDistance, isNightForTrip);
-      setEstimatedFare(fare);
-    };
-    updateFare();
-  }, [estimatedDistance, isNightForTrip]);
+  const handleDestinationSelect = useCallback((place: PlaceSuggestion) => {
+    setDestination(place.description);
+    setDestinationCoordinates(place.coordinates);
+  }, []);
 
-  const handleSourceSelect = useCallback((place: any) => {
-    setSource(place.description);
+  const handleSourceChange = useCallback((text: string) => {
+    setSource(text);
+    setSourceCoordinates(undefined);
   }, []);
 
-  const handleDestinationSelect = useCallback((place: any) => {
-    setDestination(place.description);
+  const handleDestinationChange = useCallback((text: string) => {
+    setDestination(text);
+    setDestinationCoordinates(undefined);
   }, []);
 
   const handleSourceFocus = useCallback(() => {
@@ -103,6 +171,26 @@ export default function TripPlannerScreen() {
     setFocusedInput(null);
   }, []);
 
+  const addStop = () => {
+    setStops(prev => [...prev, { id: createTripId(), address: '', waitInput: '' }]);
+  };
+
+  const updateStop = (id: string, changes: Partial<StopInput>) => {
+    setStops(prev => prev.map(stop => (stop.id === id ? { ...stop, ...changes } : stop)));
+  };
+
+  const removeStop = (id: string) => {
+    setStops(prev => prev.filter(stop => stop.id !== id));
+  };
+
+  const moveStopUp = (index: number) => {
+    setStops(prev => {
+      const reordered = [...prev];
+      [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+      return reordered;
+    });
+  };
+
   const handleEstimateTrip = async () => {
     if (!source.trim() || !destination.trim()) {
       Alert.alert('Missing Information', 'Please enter both source and destination.');
@@ -110,58 +198,171 @@ export default function TripPlannerScreen() {
     }
 
     setIsLoading(true);
+    setRouteMap(null);
     try {
-      // Reload settings to get latest values
-      await loadFareSettings();
-      
-      const result = await calculateDistanceAndTime(source, destination);
-      
-      if (result) {
-        setEstimatedDistance(result.distance);
-        setEstimatedTime(result.duration);
+      const googleMaps = getGoogleMapsConfig();
+      const placeSearch = createPlaceSearchProvider(await loadPlaceSearchSettings(), googleMaps);
+      const routingProvider = createRoutingProvider(await loadRoutingSettings(), googleMaps, placeSearch.geocode);
+      // Stops left blank are skipped rather than treated as an error
+      const filledStops = stops.filter(stop => stop.address.trim());
+      const locations: RouteLocation[] = [
+        { address: source, coordinates: sourceCoordinates },
+        ...filledStops.map(stop => ({ address: stop.address, coordinates: stop.coordinates })),
+        { address: destination, coordinates: destinationCoordinates },
+      ];
+      // Alternatives only make sense for a direct trip, with stops the combinations multiply
+      const options = filledStops.length === 0
+        ? await routingProvider.routeAlternatives(locations[0], locations[1], { departureTime })
+        : [];
+      const results = filledStops.length === 0
+        ? [options[0] ?? null]
+        : await routeStops(routingProvider, locations, { departureTime });
+      const routed = results.filter((result): result is RouteResult => result !== null);
+
+      if (routed.length === locations.length - 1) {
+        const planned = routed.map((result, index) => ({
+          from: locations[index].address,
+          to: locations[index + 1].address,
+          distanceKm: result.distanceKm,
+          durationMinutes: result.durationMinutes,
+          durationInTrafficMinutes: result.durationInTrafficMinutes,
+          waitingMinutes: index < filledStops.length ? parseWaitMinutes(filledStops[index].waitInput) : 0,
+        }));
+        setLegs(planned);
+        setAlternatives(options);
+        setSelectedAlternative(0);
+        setEstimatedDistance(planned.reduce((sum, leg) => sum + leg.distanceKm, 0));
         setShowResults(true);
+        setIsEstimateSaved(false);
+        // The map is a nice-to-have, don't hold the estimate back for it
+        mapContextRef.current = { geocode: placeSearch.geocode, locations };
+        buildRouteMap(routed, placeSearch.geocode, locations, options.slice(1))
+          .then(setRouteMap)
+          .catch(error => console.error('Error building route map:', error));
       } else {
+        const failedLeg = routed.length;
         Alert.alert(
           'Unable to Calculate Distance', 
-          'Could not find a route between the selected locations. Please check the addresses and try again.'
+          locations.length > 2
+            ? `Could not find a route from ${locations[failedLeg].address} to ${locations[failedLeg + 1].address}. Please check the addresses and try again.`
+            : 'Could not find a route between the selected locations. Please check the addresses and try again.'
         );
       }
     } catch (error) {
       console.error('Error calculating trip:', error);
+      const detail = error instanceof Error ? `\n\n${error.message}` : '';
       Alert.alert(
         'Error', 
-        'Failed to calculate distance. Please check your internet connection and try again.'
+        `Failed to calculate distance. Please check your internet connection and try again.${detail}`
       );
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSelectAlternative = (index: number) => {
+    const option = alternatives[index];
+    setSelectedAlternative(index);
+    setLegs(prev => prev.map(leg => ({
+      ...leg,
+      distanceKm: option.distanceKm,
+      durationMinutes: option.durationMinutes,
+      durationInTrafficMinutes: option.durationInTrafficMinutes,
+    })));
+    setEstimatedDistance(option.distanceKm);
+    setIsEstimateSaved(false);
+
+    const context = mapContextRef.current;
+    if (context) {
+      const others = alternatives.filter((_, i) => i !== index);
+      buildRouteMap([option], context.geocode, context.locations, others)
+        .then(setRouteMap)
+        .catch(error => console.error('Error building route map:', error));
+    }
+  };
+
   const handleClearTrip = () => {
     setSource('');
     setDestination('');
+    setSourceCoordinates(undefined);
+    setDestinationCoordinates(undefined);
+    setStops([]);
+    setLegs([]);
+    setAlternatives([]);
+    setSelectedAlternative(0);
     setEstimatedDistance(0);
-    setEstimatedTime(0);
+    setDepartureInput('');
     setShowResults(false);
+    setIsEstimateSaved(false);
+    setRouteMap(null);
   };
 
-  const calculateBreakdownValues = () => {
-    const baseFareAmount = fareSettings.baseFare;
-    const additionalDistance = Math.max(0, estimatedDistance - fareSettings.baseDistance);
-    const additionalFareAmount = additionalDistance * fareSettings.ratePerKm;
-    const subtotal = baseFareAmount + additionalFareAmount;
-    const nightSurcharge = isNightForTrip ? subtotal * 0.5 : 0;
-    
-    return {
-      baseFareAmount,
-      additionalDistance,
-      additionalFareAmount,
-      subtotal,
-      nightSurcharge,
-    };
+  const breakdown = calculateFareBreakdown(fareSettings, {
+    distanceKm: estimatedDistance,
+    nightFraction,
+    waitingMinutes: plannedWaitingMinutes,
+  });
+  const estimatedFare = breakdown.total;
+  const legFares = splitFareByLeg(
+    fareSettings,
+    legs.map((leg, index) => ({
+      distanceKm: leg.distanceKm,
+      waitingMinutes: leg.waitingMinutes + legTraffic[index].predictedWaitingMinutes,
+    })),
+    breakdown.nightFraction
+  );
+  const plannedStops = legs.slice(0, -1).map(leg => leg.to);
+
+  // Each alternative priced on its own, the spread between them is what a passenger can fairly expect
+  const alternativeTraffic = alternatives.map(option => estimateTraffic(option, departureTime));
+  const alternativeFares = alternatives.map((option, index) => calculateFare(fareSettings, {
+    distanceKm: option.distanceKm,
+    nightFraction: planNightFraction(fareSettings.night, departureTime, alternativeTraffic[index].trafficMinutes),
+    waitingMinutes: alternativeTraffic[index].predictedWaitingMinutes,
+  }));
+  const cheapestAlternative = alternativeFares.indexOf(Math.min(...alternativeFares));
+  const fairFareRange = alternativeFares.length > 1
+    ? { min: Math.min(...alternativeFares), max: Math.max(...alternativeFares) }
+    : null;
+
+  const handleSaveEstimate = async () => {
+    try {
+      await saveTrip({
+        id: createTripId(),
+        kind: 'estimate',
+        startedAt: departureTime.getTime(),
+        endedAt: departureTime.getTime() + tripMinutes * 60000,
+        distanceKm: estimatedDistance,
+        durationSeconds: Math.round(tripMinutes * 60),
+        waitingSeconds: Math.round(plannedWaitingMinutes * 60),
+        fare: estimatedFare,
+        breakdown,
+        tariff: fareSettings,
+        source,
+        destination,
+        stops: plannedStops,
+        track: [],
+      });
+      setIsEstimateSaved(true);
+    } catch (error) {
+      console.error('Error saving estimate:', error);
+      Alert.alert('Error', 'Failed to save the estimate to history');
+    }
   };
 
-  const breakdown = calculateBreakdownValues();
+  const handleShareEstimate = () => {
+    setReceipt(createEstimateReceipt({
+      fare: estimatedFare,
+      distance: estimatedDistance,
+      elapsedTime: Math.round(tripMinutes * 60),
+      isNight: breakdown.nightFraction > 0,
+      breakdown,
+      tariff: fareSettings,
+      source,
+      destination,
+      stops: plannedStops,
+    }));
+  };
 
   return (
     <View style={styles.container}>
@@ -176,12 +377,16 @@ export default function TripPlannerScreen() {
           <Text style={styles.subtitle}>Trip Planner</Text>
         </View>
 
+        <GoogleMapsNotice />
+
         <View style={styles.formContainer}>
           <PlaceAutocomplete
             placeholder="Enter pickup location"
             value={source}
-            onChangeText={setSource}
+            onChangeText={handleSourceChange}
             onPlaceSelect={handleSourceSelect}
+            coordinates={sourceCoordinates}
+            pickerTitle="Pick pickup point"
             icon={<MapPin size={20} color="#4CAF50" />}
             containerStyle={[
               styles.autocompleteContainer,
@@ -192,11 +397,57 @@ export default function TripPlannerScreen() {
             onBlur={handleSourceBlur}
           />
 
+          {stops.map((stop, index) => (
+            <View key={stop.id} style={[styles.stopContainer, { zIndex: focusedInput === stop.id ? 99999 : 10000 }]}>
+              <PlaceAutocomplete
+                placeholder={`Stop ${index + 1}`}
+                value={stop.address}
+                onChangeText={(address) => updateStop(stop.id, { address, coordinates: undefined })}
+                onPlaceSelect={(place) => updateStop(stop.id, { address: place.description, coordinates: place.coordinates })}
+                icon={<CircleDot size={20} color="#FF9800" />}
+                zIndex={focusedInput === stop.id ? 99999 : 10000}
+                onFocus={() => setFocusedInput(stop.id)}
+                onBlur={() => setFocusedInput(null)}
+                coordinates={stop.coordinates}
+                pickerTitle={`Pick stop ${index + 1}`}
+              />
+              <View style={styles.stopOptions}>
+                <Text style={styles.stopOptionLabel}>Wait</Text>
+                <TextInput
+                  style={[styles.waitInput, noFocusOutline]}
+                  value={stop.waitInput}
+                  onChangeText={(waitInput) => updateStop(stop.id, { waitInput })}
+                  placeholder="0"
+                  placeholderTextColor="#999999"
+                  keyboardType="numeric"
+                  selectionColor="#FF6B35"
+                />
+                <Text style={styles.stopOptionLabel}>min</Text>
+                <View style={styles.stopSpacer} />
+                {index > 0 && (
+                  <TouchableOpacity style={styles.stopButton} onPress={() => moveStopUp(index)}>
+                    <ArrowUp size={18} color="#1565C0" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.stopButton} onPress={() => removeStop(stop.id)}>
+                  <X size={18} color="#F44336" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity style={styles.addStopButton} onPress={addStop}>
+            <Plus size={16} color="#FF6B35" />
+            <Text style={styles.addStopText}>Add stop</Text>
+          </TouchableOpacity>
+
           <PlaceAutocomplete
             placeholder="Enter destination"
             value={destination}
-            onChangeText={setDestination}
+            onChangeText={handleDestinationChange}
             onPlaceSelect={handleDestinationSelect}
+            coordinates={destinationCoordinates}
+            pickerTitle="Pick drop point"
             icon={<Navigation size={20} color="#F44336" />}
             containerStyle={[
               styles.autocompleteContainer,
@@ -207,6 +458,27 @@ export default function TripPlannerScreen() {
             onBlur={handleDestinationBlur}
           />
 
+          <View style={styles.departureContainer}>
+            <Clock size={20} color="#1565C0" />
+            <TextInput
+              style={[styles.departureInput, noFocusOutline]}
+              placeholder="Departure time (HH:MM), leave blank for now"
+              placeholderTextColor="#999999"
+              value={departureInput}
+              onChangeText={setDepartureInput}
+              keyboardType="numbers-and-punctuation"
+              selectionColor="#FF6B35"
+            />
+            {departureInput.length > 0 && (
+              <TouchableOpacity onPress={() => setDepartureInput('')}>
+                <Text style={styles.departureNow}>Now</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {isDepartureInvalid && (
+            <Text style={styles.departureError}>Enter the time as HH:MM, e.g. 22:30</Text>
+          )}
+
           <View style={styles.buttonContainer}>
             <TouchableOpacity 
               style={styles.estimateButton} 
@@ -231,12 +503,62 @@ export default function TripPlannerScreen() {
         {showResults && (
           <View style={styles.resultsContainer}>
             <Text style={styles.resultsTitle}>Trip Estimate</Text>
+            <Text style={styles.resultsSubtitle}>
+              {plannedDeparture
+                ? `Departing ${departureTime.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`
+                : 'Departing now'}
+            </Text>
             
             <View style={styles.fareCard}>
               <Text style={styles.fareLabel}>Estimated Fare</Text>
               <Text style={styles.fareAmount}>₹{estimatedFare.toFixed(2)}</Text>
             </View>
 
+            {fairFareRange && (
+              <View style={styles.legsContainer}>
+                <Text style={styles.breakdownTitle}>Route Options</Text>
+                {alternatives.map((option, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[styles.alternativeRow, index === selectedAlternative && styles.alternativeRowSelected]}
+                    onPress={() => handleSelectAlternative(index)}
+                    activeOpacity={0.8}
+                  >
+                    <View style={styles.legContent}>
+                      <View style={styles.alternativeHeader}>
+                        <Text style={styles.legRoute}>Route {index + 1}</Text>
+                        {index === cheapestAlternative && (
+                          <Text style={styles.cheapestBadge}>Cheapest</Text>
+                        )}
+                      </View>
+                      <Text style={styles.legDetails}>
+                        {option.distanceKm.toFixed(2)} km · {Math.round(alternativeTraffic[index].trafficMinutes)} min
+                      </Text>
+                    </View>
+                    <Text style={styles.breakdownAmount}>₹{alternativeFares[index].toFixed(2)}</Text>
+                  </TouchableOpacity>
+                ))}
+                <View style={styles.fairFareCard}>
+                  <Text style={styles.fairFareLabel}>Fair fare range</Text>
+                  <Text style={styles.fairFareAmount}>
+                    ₹{fairFareRange.min.toFixed(0)} – ₹{fairFareRange.max.toFixed(0)}
+                  </Text>
+                  <Text style={styles.legNote}>
+                    Any metered fare in this range matches one of the routes above. Tap a route to estimate with it.
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {routeMap && (
+              <View style={styles.mapCard}>
+                <LeafletMap data={routeMap} />
+                {routeMap.polylines.some(line => line.dashed) && (
+                  <Text style={styles.mapNote}>Dashed lines run straight between stops, the actual route follows the roads</Text>
+                )}
+              </View>
+            )}
+
             <View style={styles.detailsContainer}>
               <View style={styles.detailCard}>
                 <MapPin size={16} color="#FF6B35" />
@@ -250,48 +572,117 @@ export default function TripPlannerScreen() {
                 <Clock size={16} color="#FF6B35" />
                 <View style={styles.detailContent}>
                   <Text style={styles.detailLabel}>Time</Text>
-                  <Text style={styles.detailValue}>{Math.round(estimatedTime)} min</Text>
+                  <Text style={styles.detailValue}>{Math.round(tripMinutes)} min</Text>
                 </View>
               </View>
             </View>
+            {trafficWaitingMinutes >= 0.5 && (
+              <Text style={styles.trafficNote}>
+                Includes about {Math.round(trafficWaitingMinutes)} min crawling in traffic
+                ({legTraffic.every(traffic => traffic.source === 'live') ? 'live traffic' : 'typical for this time of day'}),
+                charged as waiting
+              </Text>
+            )}
+
+            {legs.length > 1 && (
+              <View style={styles.legsContainer}>
+                <Text style={styles.breakdownTitle}>Legs</Text>
+                {legs.map((leg, index) => (
+                  <View key={index} style={styles.legRow}>
+                    <View style={styles.legContent}>
+                      <Text style={styles.legRoute} numberOfLines={1}>{leg.from} → {leg.to}</Text>
+                      <Text style={styles.legDetails}>
+                        {leg.distanceKm.toFixed(2)} km · {Math.round(legTraffic[index].trafficMinutes)} min
+                        {leg.waitingMinutes > 0 ? ` · wait ${leg.waitingMinutes} min` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.breakdownAmount}>₹{legFares[index].toFixed(2)}</Text>
+                  </View>
+                ))}
+                <Text style={styles.legNote}>
+                  One continuous ride: the minimum fare is charged once, on the first leg
+                </Text>
+              </View>
+            )}
 
             <View style={styles.breakdownContainer}>
               <Text style={styles.breakdownTitle}>Fare Breakdown</Text>
               <View style={styles.breakdownRow}>
-                <Text style={styles.breakdownText}>Base fare (first {fareSettings.baseDistance} km)</Text>
-                <Text style={styles.breakdownAmount}>₹{breakdown.baseFareAmount.toFixed(2)}</Text>
+                <Text style={styles.breakdownText}>Minimum fare (first {fareSettings.baseDistance} km)</Text>
+                <Text style={styles.breakdownAmount}>₹{breakdown.minimumFare.toFixed(2)}</Text>
               </View>
-              {breakdown.additionalDistance > 0 && (
-                <View style={styles.breakdownRow}>
+              {breakdown.slabCharges.map((charge) => (
+                <View key={charge.fromKm} style={styles.breakdownRow}>
                   <Text style={styles.breakdownText}>
-                    Additional ({breakdown.additionalDistance.toFixed(2)} km @ ₹{fareSettings.ratePerKm}/km)
+                    {charge.fromKm}–{charge.toKm.toFixed(2)} km ({(charge.toKm - charge.fromKm).toFixed(2)} km @ ₹{charge.ratePerKm}/km)
                   </Text>
-                  <Text style={styles.breakdownAmount}>
-                    ₹{breakdown.additionalFareAmount.toFixed(2)}
+                  <Text style={styles.breakdownAmount}>₹{charge.amount.toFixed(2)}</Text>
+                </View>
+              ))}
+              {breakdown.waitingCharge > 0 && (
+                <View style={styles.breakdownRow}>
+                  <Text style={styles.breakdownText}>
+                    Waiting ({breakdown.chargeableWaitingMinutes.toFixed(1)} min @ ₹{fareSettings.waiting.ratePerMinute}/min
+                    {stopWaitingMinutes > 0 && trafficWaitingMinutes > 0
+                      ? `; ${stopWaitingMinutes} min at stops, ${trafficWaitingMinutes.toFixed(1)} min predicted in traffic`
+                      : trafficWaitingMinutes > 0 ? ', predicted in traffic' : ''})
                   </Text>
+                  <Text style={styles.breakdownAmount}>₹{breakdown.waitingCharge.toFixed(2)}</Text>
                 </View>
               )}
-              {isNightForTrip && (
+              {breakdown.nightFraction > 0 && (
                 <View style={styles.breakdownRow}>
-                  <Text style={styles.breakdownText}>Night surcharge (50%)</Text>
+                  <Text style={styles.breakdownText}>
+                    Night surcharge ({nightSurchargePercent(fareSettings)}%
+                    {breakdown.nightFraction < 1 ? ` on ${Math.round(breakdown.nightFraction * 100)}% of trip` : ''})
+                  </Text>
                   <Text style={styles.breakdownAmount}>₹{breakdown.nightSurcharge.toFixed(2)}</Text>
                 </View>
               )}
+              {Math.abs(breakdown.roundingAdjustment) >= 0.01 && (
+                <View style={styles.breakdownRow}>
+                  <Text style={styles.breakdownText}>Rounding</Text>
+                  <Text style={styles.breakdownAmount}>₹{breakdown.roundingAdjustment.toFixed(2)}</Text>
+                </View>
+              )}
               <View style={[styles.breakdownRow, styles.totalRow]}>
                 <Text style={styles.totalText}>Total</Text>
                 <Text style={styles.totalAmount}>₹{estimatedFare.toFixed(2)}</Text>
               </View>
             </View>
+
+            <View style={styles.resultActions}>
+              <TouchableOpacity
+                style={[styles.saveButton, isEstimateSaved && styles.saveButtonDone]}
+                onPress={handleSaveEstimate}
+                disabled={isEstimateSaved}
+              >
+                <Save size={18} color={isEstimateSaved ? '#4CAF50' : '#FF6B35'} />
+                <Text style={[styles.saveButtonText, isEstimateSaved && styles.saveButtonTextDone]}>
+                  {isEstimateSaved ? 'Saved' : 'Save to History'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={handleShareEstimate}>
+                <Share2 size={18} color="#FF6B35" />
+                <Text style={styles.saveButtonText}>Share</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         )}
 
         <View style={styles.infoContainer}>
           <Text style={styles.infoTitle}>💡 Tips</Text>
-          <Text style={styles.infoText}>• Night surcharge (50% extra) applies from 10 PM to 5 AM</Text>
+          <Text style={styles.infoText}>• Night surcharge ({nightSurchargePercent(fareSettings)}% extra) applies from {describeNightWindow(fareSettings.night)}</Text>
           <Text style={styles.infoText}>• Fares may vary based on traffic conditions</Text>
           <Text style={styles.infoText}>• Always confirm with the driver before starting</Text>
         </View>
       </ScrollView>
+
+      <FareReceipt
+        visible={receipt !== null}
+        receipt={receipt}
+        onClose={() => setReceipt(null)}
+      />
     </View>
   );
 }
@@ -344,6 +735,91 @@ const styles = StyleSheet.create({
   destinationContainer: {
     // Destination input specific styles
   },
+  stopContainer: {
+    marginBottom: 16,
+  },
+  stopOptions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingHorizontal: 4,
+    gap: 8,
+  },
+  stopOptionLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+  },
+  waitInput: {
+    width: 56,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    textAlign: 'center',
+  },
+  stopSpacer: {
+    flex: 1,
+  },
+  stopButton: {
+    padding: 6,
+  },
+  addStopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    borderStyle: 'dashed',
+    paddingVertical: 10,
+    marginBottom: 16,
+    gap: 6,
+  },
+  addStopText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+  },
+  departureContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+    zIndex: 1,
+  },
+  departureInput: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+    paddingVertical: 16,
+  },
+  departureNow: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+  },
+  departureError: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#F44336',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   buttonContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -388,6 +864,13 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontFamily: 'Inter-Bold',
     color: '#1565C0',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  resultsSubtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
     marginBottom: 16,
     textAlign: 'center',
   },
@@ -414,11 +897,37 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#FF6B35',
   },
+  mapCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 8,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  mapNote: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   detailsContainer: {
     flexDirection: 'row',
     gap: 12,
     marginBottom: 20,
   },
+  trafficNote: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 20,
+  },
   detailCard: {
     flex: 1,
     backgroundColor: '#FFFFFF',
@@ -457,6 +966,92 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  legsContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  legRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  legContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  legRoute: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+  },
+  legDetails: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    marginTop: 2,
+  },
+  alternativeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+  alternativeRowSelected: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF3EE',
+  },
+  alternativeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cheapestBadge: {
+    fontSize: 11,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+    backgroundColor: '#4CAF50',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  fairFareCard: {
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 4,
+  },
+  fairFareLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+    textTransform: 'uppercase',
+  },
+  fairFareAmount: {
+    fontSize: 24,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+    marginVertical: 4,
+  },
+  legNote: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    marginTop: 8,
+  },
   breakdownTitle: {
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
@@ -497,6 +1092,34 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#FF6B35',
   },
+  resultActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  saveButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+    paddingVertical: 14,
+    gap: 8,
+  },
+  saveButtonDone: {
+    borderColor: '#4CAF50',
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+  },
+  saveButtonTextDone: {
+    color: '#4CAF50',
+  },
   infoContainer: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
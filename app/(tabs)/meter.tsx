@@ -1,184 +1,499 @@
-import { View, Text, StyleSheet, TouchableOpacity, Alert, TextInput } from 'react-native';
-import { useState, useEffect } from 'react';
-import { Play, Square, RotateCcw } from 'lucide-react-native';
-import * as Location from 'expo-location';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, TextInput, ScrollView } from 'react-native';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Play,
+  Pause,
+  Square,
+  RotateCcw,
+  Hourglass,
+  Receipt as ReceiptIcon,
+  FileUp,
+  Map as MapIcon,
+  History,
+  Gauge,
+} from 'lucide-react-native';
 import { useFareCalculator } from '@/hooks/useFareCalculator';
-import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { useFareSettings } from '@/hooks/useFareSettings';
+import { TrackingResumePoint, useLocationTracking } from '@/hooks/useLocationTracking';
+import { TrackPoint, TripRecord, saveTrip, createTripId } from '@/utils/tripHistory';
+import { MapData } from '@/utils/mapHtml';
+import { MeterSession, clearMeterSession, loadMeterSession, saveMeterSession } from '@/utils/meterSession';
+import {
+  MeterSegment,
+  SEGMENT_LABELS,
+  SegmentMode,
+  closeSegments,
+  currentSegmentMode,
+  segmentSeconds,
+  startSegments,
+  switchSegment,
+} from '@/utils/meterSegments';
+import {
+  DISTANCE_SOURCE_LABELS,
+  EMPTY_MANUAL_ENTRY,
+  ManualDistanceEntry,
+  ManualDistanceMode,
+  resolveDistance,
+} from '@/utils/manualDistance';
+import { Receipt, createMeterReceipt } from '@/utils/receipt';
+import { parseTrack, toGpsFixes } from '@/utils/trackFormats';
+import { confirmAsync } from '@/utils/confirm';
+import { pickTextFile } from '@/utils/filePicker';
+import { LocationProvider, createReplayLocationProvider, updateMeterNotification } from '@/services/location';
+import { Coordinates } from '@/services/places';
+import FareReceipt from '@/components/FareReceipt';
+import LeafletMap from '@/components/LeafletMap';
+import { Tariff, describeNightWindow, describeSlab, nightSurchargePercent } from '@/utils/tariff';
 
-interface FareSettings {
-  baseFare: number;
-  baseDistance: number;
-  ratePerKm: number;
+// Native watchers only fire after the auto moves 10 m, so a fix this old means we're standing still
+const STALE_FIX_MS = 15000;
+
+// Replays run this many times faster than they were recorded
+const REPLAY_SPEED_FACTOR = 10;
+
+// A longer gap between ticks means the app was asleep. Nobody knows whether the auto was waiting
+// then, so at most this much of the gap is charged as waiting.
+const MAX_WAITING_TICK_SECONDS = 5;
+
+const persistSession = (session: MeterSession | null) => {
+  if (!session) return;
+  saveMeterSession(session).catch(error => console.error('Error saving meter session:', error));
+};
+
+interface ReplaySession {
+  name: string;
+  provider: LocationProvider;
 }
 
-const DEFAULT_SETTINGS: FareSettings = {
-  baseFare: 30,
-  baseDistance: 1.5,
-  ratePerKm: 15,
+const isIgnoredFix = (point: TrackPoint) => point.status === 'low-accuracy' || point.status === 'implausible-speed';
+
+// The charged path joins the fixes that added distance. Fixes held while standing still and
+// fixes thrown away as noise are drawn as dots, so everyone can see what wasn't charged.
+const buildTrackMap = (track: TrackPoint[], current: Coordinates | null, follow: boolean): MapData => {
+  const start = track.find(point => !isIgnoredFix(point));
+  const charged = track.filter(point => point.status === 'counted');
+
+  return {
+    polylines: start ? [{ points: [start, ...charged], color: '#1565C0' }] : [],
+    dots: track
+      .filter(point => point.status === 'held' || isIgnoredFix(point))
+      .map(point => ({ coordinates: point, color: isIgnoredFix(point) ? '#F44336' : '#999999' })),
+    markers: [
+      ...(start ? [{ coordinates: start, color: '#4CAF50', label: 'Start' }] : []),
+      ...(current ? [{ coordinates: current, color: '#FF6B35', label: 'Now' }] : []),
+    ],
+    follow: follow && current ? current : undefined,
+  };
 };
 
 export default function MeterScreen() {
   const [isRunning, setIsRunning] = useState(false);
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [hasPermission, setHasPermission] = useState(false);
-  const [fareSettings, setFareSettings] = useState<FareSettings>(DEFAULT_SETTINGS);
-  const [manualDistance, setManualDistance] = useState('');
+  const [waitingTime, setWaitingTime] = useState(0);
+  const [tripStartedAt, setTripStartedAt] = useState<number | null>(null);
+  const [isTripSaved, setIsTripSaved] = useState(false);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [manualEntry, setManualEntry] = useState<ManualDistanceEntry>(EMPTY_MANUAL_ENTRY);
   const [showManualInput, setShowManualInput] = useState(false);
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  const [showMap, setShowMap] = useState(false);
+  const [rideTariff, setRideTariff] = useState<Tariff | null>(null); // Snapshot the running ride is priced with
+  const [resumableSession, setResumableSession] = useState<MeterSession | null>(null);
+  const [segments, setSegments] = useState<MeterSegment[]>([]);
 
   const {
     distance,
     fare,
     isNight,
+    nightFraction,
+    breakdown,
     resetMeter,
     updateDistance,
+    lockTariff,
+    restoreTrip,
+    getNightDistance,
   } = useFareCalculator();
+  const fareSettings = useFareSettings();
 
   const {
     startTracking,
     stopTracking,
+    restoreTracking,
     currentLocation,
+    currentSpeed,
     distanceTraveled,
-  } = useLocationTracking();
+    track,
+  } = useLocationTracking({ onTrackEnd: () => handleStopMeter() });
+
+  const currentCoordinates = currentLocation?.coords ?? null;
+  const trackMap = useMemo(
+    () => buildTrackMap(track, currentCoordinates, isRunning),
+    [track, currentCoordinates, isRunning]
+  );
+  const ignoredFixCount = track.filter(isIgnoredFix).length;
+  const activeTariff = rideTariff ?? fareSettings;
+  const chargedDistance = resolveDistance(showManualInput ? manualEntry : null, distanceTraveled);
+  // A stopped ride is already in History, so its readings can't change any more
+  const isManualEntryLocked = !isRunning && tripStartedAt !== null;
+  const segmentMode = currentSegmentMode(segments);
+  const segmentTotals = { distanceKm: distance, waitingSeconds: waitingTime };
+  // The segment in progress is shown as if it ended now
+  const segmentRows = segments.length > 1 ? closeSegments(segments, segmentTotals, Date.now()) : [];
+
+  // What would be needed to pick this ride up again, rebuilt every render and written out on
+  // each fix and every few seconds. Replays are never persisted.
+  const sessionRef = useRef<MeterSession | null>(null);
+  sessionRef.current = isRunning && !replay && tripStartedAt !== null && rideTariff
+    ? {
+      startedAt: tripStartedAt,
+      distanceKm: distanceTraveled,
+      nightDistanceKm: getNightDistance(),
+      waitingSeconds: waitingTime,
+      lastFix: [...track].reverse().find(point => !isIgnoredFix(point)) ?? null,
+      track,
+      tariff: rideTariff,
+      segments,
+      manualEntry: showManualInput ? manualEntry : null,
+      updatedAt: Date.now(),
+    }
+    : null;
 
   useEffect(() => {
-    loadFareSettings();
+    loadMeterSession().then(setResumableSession);
   }, []);
 
-  const loadFareSettings = async () => {
-    try {
-      const savedSettings = await AsyncStorage.getItem('fareSettings');
-      if (savedSettings) {
-        setFareSettings(JSON.parse(savedSettings));
-      }
-    } catch (error) {
-      console.error('Error loading fare settings:', error);
-    }
+  useEffect(() => {
+    persistSession(sessionRef.current);
+  }, [track, isRunning, segments, manualEntry, showManualInput]);
+
+  // Native builds show the running fare in the background tracking notification
+  useEffect(() => {
+    if (isRunning && !replay) updateMeterNotification(fare, distance);
+  }, [fare, distance, isRunning, replay]);
+
+  // When the last fix arrived on the wall clock. Replayed fixes carry recorded timestamps.
+  const lastFixAtRef = useRef(0);
+  useEffect(() => {
+    lastFixAtRef.current = currentLocation ? Date.now() : 0;
+  }, [currentLocation]);
+
+  // Latest speed and segment mode for the 1s ticker, kept in a ref so the interval isn't restarted on every fix
+  const timeScale = replay?.provider.timeScale ?? 1;
+  const idleCheckRef = useRef({
+    speed: currentSpeed,
+    thresholdKmh: fareSettings.waiting.speedThresholdKmh,
+    timeScale,
+    mode: segmentMode,
+  });
+  idleCheckRef.current = {
+    speed: currentSpeed,
+    thresholdKmh: activeTariff.waiting.speedThresholdKmh,
+    timeScale,
+    mode: segmentMode,
   };
 
+  // Elapsed time comes from the wall clock, so it stays right after the app was asleep or reloaded.
+  // The interval only decides how often the screen updates and samples whether we're waiting.
   useEffect(() => {
+    if (!isRunning || tripStartedAt === null) return;
+    let lastTickAt = Date.now();
+    let ticks = 0;
     const interval = setInterval(() => {
-      loadFareSettings();
+      // A replayed second covers timeScale seconds of the recording
+      const { speed, thresholdKmh, timeScale, mode } = idleCheckRef.current;
+      const now = Date.now();
+      setElapsedTime(Math.floor(((now - tripStartedAt) * timeScale) / 1000));
+      const realTickSeconds = ((now - lastTickAt) / 1000) * timeScale;
+      const tickSeconds = Math.min(realTickSeconds, MAX_WAITING_TICK_SECONDS * timeScale);
+      lastTickAt = now;
+
+      ticks += 1;
+      if (ticks % 10 === 0) persistSession(sessionRef.current);
+
+      // The driver said so, so waiting is charged even for time the app was asleep
+      if (mode === 'waiting') {
+        setWaitingTime((prev) => prev + realTickSeconds);
+        return;
+      }
+      if (mode === 'paused') return;
+
+      if (!lastFixAtRef.current) return; // No fix yet
+      const isStale = (now - lastFixAtRef.current) * timeScale > STALE_FIX_MS;
+      if (isStale || (speed !== null && speed < thresholdKmh)) {
+        setWaitingTime((prev) => prev + tickSeconds);
+      }
     }, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [isRunning, tripStartedAt]);
 
+  // Charges the odometer or corrected distance instead of GPS while manual mode has a valid entry
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isRunning) {
-      interval = setInterval(() => {
-        setElapsedTime((prev) => prev + 1);
-      }, 1000);
+    if (chargedDistance.distanceKm > 0 || waitingTime > 0) {
+      updateDistance(chargedDistance.distanceKm, waitingTime / 60);
     }
-    return () => clearInterval(interval);
-  }, [isRunning]);
+  }, [chargedDistance.distanceKm, waitingTime, updateDistance]);
 
-  useEffect(() => {
-    if (distanceTraveled > 0) {
-      updateDistance(distanceTraveled);
+  // The location provider asks for permission itself (important for iOS PWA)
+  const trackLocation = async (replayProvider?: LocationProvider, resumeFrom?: TrackingResumePoint) => {
+    try {
+      await startTracking(replayProvider, resumeFrom);
+    } catch (error) {
+      console.error('Location tracking failed:', error);
+      Alert.alert(
+        'Location Permission Required',
+        'Please enable location services in Settings > Safari > Location, or open the app in Safari.'
+      );
     }
-  }, [distanceTraveled]);
+  };
 
-  const handleStartMeter = async () => {
-    console.log('Start meter clicked');
+  // Starts a new ride, or carries on with an interrupted one when a saved session is passed
+  const beginMeter = async (replayProvider?: LocationProvider, session?: MeterSession) => {
+    const startedAt = session?.startedAt ?? Date.now();
+    const tariff = session?.tariff ?? fareSettings;
+    setRideTariff(tariff);
+    lockTariff(tariff);
+    if (session) {
+      restoreTrip(session.startedAt, session.distanceKm, session.nightDistanceKm);
+    }
+    setTripStartedAt(startedAt);
+    setSegments(session?.segments ?? startSegments(startedAt));
+    if (session) {
+      setManualEntry(session.manualEntry ?? EMPTY_MANUAL_ENTRY);
+      setShowManualInput(session.manualEntry !== null);
+    }
+    setElapsedTime(Math.floor((Date.now() - startedAt) / 1000));
+    setWaitingTime(session?.waitingSeconds ?? 0);
     setIsRunning(true);
+    setIsTripSaved(false);
 
-    let permissionGranted = false;
-
-    // Request browser geolocation permission (important for iOS PWA)
-    if (typeof window !== 'undefined' && 'geolocation' in navigator) {
-      try {
-        await new Promise<void>((resolve) => {
-          navigator.geolocation.getCurrentPosition(
-            (position) => {
-              console.log('Navigator geolocation granted:', position);
-              permissionGranted = true;
-              resolve();
-            },
-            (error) => {
-              console.log('Navigator geolocation denied:', error);
-              permissionGranted = false;
-              resolve();
-            },
-            { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
-          );
-        });
-      } catch (error) {
-        console.log('Error checking navigator geolocation:', error);
-      }
+    const resumeFrom = session && {
+      distanceKm: session.distanceKm,
+      track: session.track,
+      lastFix: session.lastFix,
+    };
+    // A ride that was paused comes back paused, tracking starts again when it's resumed
+    if (resumeFrom && currentSegmentMode(session.segments) !== 'running') {
+      restoreTracking(resumeFrom);
+      return;
     }
+    await trackLocation(replayProvider, resumeFrom);
+  };
 
-    if (!permissionGranted) {
-      Alert.alert(
-        'Location Permission Required',
-        'Please enable location services in Settings > Safari > Location, or open the app in Safari.'
+  // GPS is off while paused, so moving the auto meanwhile doesn't add distance
+  const handlePauseMeter = async (mode: SegmentMode) => {
+    setSegments(prev => switchSegment(prev, mode, segmentTotals, Date.now()));
+    await stopTracking();
+  };
+
+  const handleContinueMeter = async () => {
+    setSegments(prev => switchSegment(prev, 'running', segmentTotals, Date.now()));
+    // No last fix, distance is measured again from wherever the ride carries on
+    await trackLocation(undefined, { distanceKm: distanceTraveled, track, lastFix: null });
+  };
+
+  // A ride that was stopped but couldn't be saved is still in storage, so starting over asks first
+  const handleStartMeter = async () => {
+    const pending = await loadMeterSession();
+    if (pending) {
+      const confirmed = await confirmAsync(
+        'Discard Ride',
+        'The last ride was not saved to History. Start a new ride and discard it?',
+        { confirmText: 'Discard', destructive: true }
       );
+      if (!confirmed) return;
     }
+    setReplay(null);
+    setResumableSession(null);
+    await clearMeterSession();
+    resetMeter();
+    setManualEntry(EMPTY_MANUAL_ENTRY);
+    setShowManualInput(false);
+    beginMeter();
+  };
 
+  const handleResumeSession = async () => {
+    if (!resumableSession) return;
+    setReplay(null);
+    setResumableSession(null);
+    // The background task may have added distance since the card was shown
+    const latest = await loadMeterSession();
+    beginMeter(undefined, latest ?? resumableSession);
+  };
+
+  const handleDiscardSession = async () => {
+    const confirmed = await confirmAsync(
+      'Discard Ride',
+      'Discard the unfinished ride? It will not be saved to History.',
+      { confirmText: 'Discard', destructive: true }
+    );
+    if (confirmed) {
+      setResumableSession(null);
+      await clearMeterSession();
+    }
+  };
+
+  // Runs a GPX or GeoJSON track through the same filter, waiting and fare logic as a live trip
+  const handleReplayTrack = async () => {
     try {
-      await startTracking();
-      setHasPermission(true);
-      console.log('Location tracking started');
+      const file = await pickTextFile(['.gpx', '.geojson', '.json']);
+      if (!file) return;
+
+      const provider = createReplayLocationProvider(toGpsFixes(parseTrack(file.contents)), {
+        speedFactor: REPLAY_SPEED_FACTOR,
+        name: `replay of ${file.name}`,
+      });
+      resetMeter();
+      setReplay({ name: file.name, provider });
+      await beginMeter(provider);
     } catch (error) {
-      console.log('Location tracking failed:', error);
-      setHasPermission(false);
+      console.error('Error replaying track:', error);
+      Alert.alert('Replay Failed', error instanceof Error ? error.message : 'Could not read the track file');
     }
   };
 
   const handleStopMeter = async () => {
     setIsRunning(false);
+    setSegments(prev => closeSegments(prev, segmentTotals, Date.now()));
     await stopTracking();
-    setShowManualInput(false);
+    // Replays are for checking a past trip, not new rides
+    if (!replay) await saveCurrentTrip();
+  };
+
+  // The session is only cleared once the trip is in History. If saving fails and isn't retried,
+  // the ride is offered for resuming next time.
+  const saveCurrentTrip = async () => {
+    // Nothing was charged yet, so there's no trip worth keeping
+    if (!breakdown || tripStartedAt === null) {
+      await clearMeterSession();
+      return;
+    }
+
+    const trip: TripRecord = {
+      id: createTripId(),
+      kind: 'meter',
+      startedAt: tripStartedAt,
+      endedAt: Date.now(),
+      distanceKm: distance,
+      durationSeconds: Math.round((Date.now() - tripStartedAt) / 1000),
+      waitingSeconds: Math.round(waitingTime),
+      fare,
+      breakdown,
+      tariff: activeTariff,
+      source: null,
+      destination: null,
+      segments: closeSegments(segments, segmentTotals, Date.now()),
+      distanceSource: chargedDistance.source,
+      distanceOverride: chargedDistance.override ?? undefined,
+      track,
+    };
+    let retry = true;
+    while (retry) {
+      try {
+        await saveTrip(trip);
+        setIsTripSaved(true);
+        await clearMeterSession();
+        return;
+      } catch (error) {
+        console.error('Error saving trip:', error);
+        retry = await confirmAsync(
+          'Trip Not Saved',
+          'The ride could not be saved to History. Try again? If you cancel, it stays on this device and can be resumed later.',
+          { confirmText: 'Retry' }
+        );
+      }
+    }
   };
 
   const handleResetMeter = () => {
     setIsRunning(false);
     setElapsedTime(0);
+    setWaitingTime(0);
+    setTripStartedAt(null);
+    setIsTripSaved(false);
+    setRideTariff(null);
+    setSegments([]);
     resetMeter();
     stopTracking();
+    if (!replay) clearMeterSession();
     setShowManualInput(false);
-    setManualDistance('');
+    setManualEntry(EMPTY_MANUAL_ENTRY);
+    setReplay(null);
+  };
+
+  const handleShowReceipt = () => {
+    if (!breakdown) return;
+    setReceipt(createMeterReceipt({
+      fare,
+      distance,
+      elapsedTime,
+      isNight,
+      breakdown,
+      tariff: activeTariff,
+    }));
   };
 
-  const handleManualDistanceChange = (value: string) => {
-    setManualDistance(value);
-    const numValue = parseFloat(value) || 0;
-    updateDistance(numValue);
+  const handleManualDistanceChange = (changes: Partial<ManualDistanceEntry>) => {
+    setManualEntry(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleManualModeChange = (mode: ManualDistanceMode) => {
+    handleManualDistanceChange({ mode });
   };
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
   return (
-    <View style={styles.container}>
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+      showsVerticalScrollIndicator={false}
+    >
       <View style={styles.header}>
         <Text style={styles.title}>Aye Auto</Text>
         <Text style={styles.subtitle}>Auto Meter App</Text>
       </View>
 
+      {resumableSession && !isRunning && (
+        <View style={styles.resumeCard}>
+          <History size={20} color="#1565C0" />
+          <View style={styles.resumeContent}>
+            <Text style={styles.resumeTitle}>Unfinished ride</Text>
+            <Text style={styles.resumeText}>
+              Started {new Date(resumableSession.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {' · '}{resumableSession.distanceKm.toFixed(2)} km so far
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.resumeButton} onPress={handleResumeSession}>
+            <Text style={styles.resumeButtonText}>Resume</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDiscardSession}>
+            <Text style={styles.discardText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.displayContainer}>
         <View style={styles.fareCard}>
           <Text style={styles.fareLabel}>Current Fare</Text>
           <Text style={styles.fareAmount}>₹{fare.toFixed(2)}</Text>
+          {isRunning && segmentMode !== 'running' && (
+            <Text style={styles.segmentNote}>
+              {segmentMode === 'waiting' ? 'Waiting, charged by the minute' : 'Paused, not charging'}
+            </Text>
+          )}
         </View>
 
         <View style={styles.statsContainer}>
           <View style={styles.statCard}>
             <Text style={styles.statLabel}>Distance</Text>
-            {showManualInput ? (
-              <TextInput
-                style={styles.manualInput}
-                value={manualDistance}
-                onChangeText={handleManualDistanceChange}
-                placeholder="0.0"
-                keyboardType="decimal-pad"
-                autoFocus={true}
-              />
-            ) : (
-              <Text style={styles.statValue}>{distance.toFixed(2)} km</Text>
+            <Text style={styles.statValue}>{distance.toFixed(2)} km</Text>
+            {chargedDistance.source !== 'gps' && (
+              <Text style={styles.statSource}>{DISTANCE_SOURCE_LABELS[chargedDistance.source]}</Text>
             )}
           </View>
           <View style={styles.statCard}>
@@ -186,9 +501,152 @@ export default function MeterScreen() {
             <Text style={styles.statValue}>{formatTime(elapsedTime)}</Text>
           </View>
         </View>
+
+        {(isRunning || waitingTime > 0) && (
+          <View style={styles.waitingRow}>
+            <Hourglass size={16} color="#FF6B35" />
+            <Text style={styles.waitingLabel}>Waiting {formatTime(waitingTime)}</Text>
+            <Text style={styles.waitingAmount}>₹{(breakdown?.waitingCharge ?? 0).toFixed(2)}</Text>
+          </View>
+        )}
+
+        {(isRunning || showManualInput) && (
+          <TouchableOpacity
+            style={styles.mapToggle}
+            onPress={() => setShowManualInput(prev => !prev)}
+            disabled={isManualEntryLocked}
+          >
+            <Gauge size={16} color="#1565C0" />
+            <Text style={styles.mapToggleText}>
+              {showManualInput ? 'Use GPS distance' : 'Manual odometer'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {showManualInput && (
+          <View style={styles.manualCard}>
+            <View style={styles.manualModeRow}>
+              {(['odometer', 'correction'] as const).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.manualModeChip, manualEntry.mode === mode && styles.manualModeChipActive]}
+                  onPress={() => handleManualModeChange(mode)}
+                  disabled={isManualEntryLocked}
+                >
+                  <Text style={[styles.manualModeText, manualEntry.mode === mode && styles.manualModeTextActive]}>
+                    {mode === 'odometer' ? 'Odometer readings' : 'Correct GPS'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {manualEntry.mode === 'odometer' ? (
+              <View style={styles.manualRow}>
+                <View style={styles.manualField}>
+                  <Text style={styles.statLabel}>Start (km)</Text>
+                  <TextInput
+                    style={styles.manualInput}
+                    value={manualEntry.odometerStart}
+                    onChangeText={(odometerStart) => handleManualDistanceChange({ odometerStart })}
+                    placeholder="0.0"
+                    keyboardType="decimal-pad"
+                    editable={!isManualEntryLocked}
+                  />
+                </View>
+                <View style={styles.manualField}>
+                  <Text style={styles.statLabel}>End (km)</Text>
+                  <TextInput
+                    style={styles.manualInput}
+                    value={manualEntry.odometerEnd}
+                    onChangeText={(odometerEnd) => handleManualDistanceChange({ odometerEnd })}
+                    placeholder="0.0"
+                    keyboardType="decimal-pad"
+                    editable={!isManualEntryLocked}
+                  />
+                </View>
+              </View>
+            ) : (
+              <View style={styles.manualRow}>
+                <View style={styles.manualField}>
+                  <Text style={styles.statLabel}>Add to GPS (km)</Text>
+                  <TextInput
+                    style={styles.manualInput}
+                    value={manualEntry.correction}
+                    onChangeText={(correction) => handleManualDistanceChange({ correction })}
+                    placeholder="+0.0"
+                    keyboardType="numbers-and-punctuation"
+                    editable={!isManualEntryLocked}
+                  />
+                </View>
+              </View>
+            )}
+
+            <Text style={chargedDistance.error ? styles.manualError : styles.manualHint}>
+              {chargedDistance.error ??
+                (chargedDistance.source === 'gps'
+                  ? `Charging the GPS distance of ${distanceTraveled.toFixed(2)} km until the entry is complete`
+                  : `GPS measured ${distanceTraveled.toFixed(2)} km`)}
+            </Text>
+          </View>
+        )}
+
+        {segmentRows.length > 0 && (
+          <View style={styles.segmentsCard}>
+            <Text style={styles.segmentsTitle}>Segments</Text>
+            {segmentRows.map((segment) => (
+              <View key={segment.startedAt} style={styles.segmentRow}>
+                <Text style={[styles.segmentMode, segment.mode !== 'running' && styles.segmentModePaused]}>
+                  {SEGMENT_LABELS[segment.mode]}
+                </Text>
+                <Text style={styles.segmentStat}>{formatTime(segmentSeconds(segment, Date.now()))}</Text>
+                <Text style={styles.segmentStat}>{segment.distanceKm.toFixed(2)} km</Text>
+                <Text style={styles.segmentStat}>
+                  {segment.waitingSeconds > 0 ? `${formatTime(segment.waitingSeconds)} wait` : '—'}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.mapToggle} onPress={() => setShowMap(prev => !prev)}>
+          <MapIcon size={16} color="#1565C0" />
+          <Text style={styles.mapToggleText}>{showMap ? 'Hide map' : 'Show map'}</Text>
+        </TouchableOpacity>
+
+        {showMap && (
+          <View style={styles.mapPanel}>
+            <LeafletMap data={trackMap} />
+            <View style={styles.mapLegend}>
+              <Text style={[styles.legendItem, { color: '#1565C0' }]}>━ Charged path</Text>
+              <Text style={[styles.legendItem, { color: '#999999' }]}>● Standing still</Text>
+              <Text style={[styles.legendItem, { color: '#F44336' }]}>● GPS noise ({ignoredFixCount})</Text>
+            </View>
+          </View>
+        )}
       </View>
 
       <View style={styles.controlsContainer}>
+        {isRunning && !replay && (segmentMode === 'running' ? (
+          <View style={styles.pauseRow}>
+            <TouchableOpacity style={[styles.secondaryButton, styles.pauseButton]} onPress={() => handlePauseMeter('paused')}>
+              <Pause size={20} color="#FF6B35" />
+              <Text style={styles.secondaryButtonText}>Pause</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, styles.pauseButton]} onPress={() => handlePauseMeter('waiting')}>
+              <Hourglass size={20} color="#FF6B35" />
+              <Text style={styles.secondaryButtonText}>Wait</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.startButton]}
+            onPress={handleContinueMeter}
+          >
+            <Play size={24} color="#FFFFFF" />
+            <Text style={styles.buttonText}>Continue Ride</Text>
+          </TouchableOpacity>
+        ))}
+
         {!isRunning ? (
           <TouchableOpacity
             style={[styles.primaryButton, styles.startButton]}
@@ -212,25 +670,62 @@ export default function MeterScreen() {
           <Text style={styles.secondaryButtonText}>Reset</Text>
         </TouchableOpacity>
 
+        {!isRunning && (
+          <TouchableOpacity style={[styles.secondaryButton, styles.stackedButton]} onPress={handleReplayTrack}>
+            <FileUp size={20} color="#FF6B35" />
+            <Text style={styles.secondaryButtonText}>Replay GPX</Text>
+          </TouchableOpacity>
+        )}
+
+        {!isRunning && breakdown && (
+          <TouchableOpacity style={[styles.secondaryButton, styles.stackedButton]} onPress={handleShowReceipt}>
+            <ReceiptIcon size={20} color="#FF6B35" />
+            <Text style={styles.secondaryButtonText}>Receipt</Text>
+          </TouchableOpacity>
+        )}
 
+        {isTripSaved && (
+          <Text style={styles.locationNote}>✓ Trip saved to History</Text>
+        )}
+        {replay && (
+          <Text style={styles.locationNote}>
+            {isRunning ? `Replaying ${replay.name} at ${REPLAY_SPEED_FACTOR}x` : `Replay of ${replay.name}, not saved`}
+          </Text>
+        )}
       </View>
 
       <View style={styles.rateInfo}>
         <Text style={styles.rateTitle}>Rate Information</Text>
         <Text style={styles.rateText}>
-          Base fare: ₹{fareSettings.baseFare.toFixed(2)} (first {fareSettings.baseDistance} km)
+          Minimum fare: ₹{activeTariff.minimumFare.toFixed(2)} (first {activeTariff.baseDistance} km)
         </Text>
+        {activeTariff.slabs.map((slab, index) => (
+          <Text key={index} style={styles.rateText}>
+            {describeSlab(activeTariff, index)}: ₹{slab.ratePerKm.toFixed(2)} per km
+          </Text>
+        ))}
+        {activeTariff.waiting.ratePerMinute > 0 && (
+          <Text style={styles.rateText}>
+            Waiting: ₹{activeTariff.waiting.ratePerMinute.toFixed(2)} per min below {activeTariff.waiting.speedThresholdKmh} km/h
+            {activeTariff.waiting.freeMinutes > 0 ? ` (first ${activeTariff.waiting.freeMinutes} min free)` : ''}
+          </Text>
+        )}
         <Text style={styles.rateText}>
-          Additional: ₹{fareSettings.ratePerKm.toFixed(2)} per km
+          Night surcharge: {nightSurchargePercent(activeTariff)}% extra ({describeNightWindow(activeTariff.night)})
         </Text>
-        <Text style={styles.rateText}>Night surcharge: 50% extra (10 PM - 5 AM)</Text>
         {isNight && (
           <Text style={[styles.rateText, styles.nightIndicator]}>
-            🌙 Night rate active
+            🌙 Night rate active{nightFraction < 1 ? ` on ${Math.round(nightFraction * 100)}% of trip` : ''}
           </Text>
         )}
       </View>
-    </View>
+
+      <FareReceipt
+        visible={receipt !== null}
+        receipt={receipt}
+        onClose={() => setReceipt(null)}
+      />
+    </ScrollView>
   );
 }
 
@@ -238,8 +733,11 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#F8F9FA',
+  },
+  scrollContent: {
     paddingHorizontal: 20,
     paddingTop: 60,
+    paddingBottom: 40,
   },
   header: {
     alignItems: 'center',
@@ -256,6 +754,47 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#666666',
   },
+  resumeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 20,
+    gap: 12,
+  },
+  resumeContent: {
+    flex: 1,
+  },
+  resumeTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+  },
+  resumeText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    marginTop: 2,
+  },
+  resumeButton: {
+    backgroundColor: '#1565C0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  resumeButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+  discardText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textDecorationLine: 'underline',
+  },
   displayContainer: {
     marginBottom: 40,
   },
@@ -311,6 +850,111 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#1565C0',
   },
+  waitingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 12,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  waitingLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+  },
+  waitingAmount: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+  },
+  segmentNote: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+    marginTop: 8,
+  },
+  segmentsCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  segmentsTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  segmentMode: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+  },
+  segmentModePaused: {
+    color: '#FF6B35',
+  },
+  segmentStat: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    textAlign: 'right',
+  },
+  mapToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  mapToggleText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1565C0',
+  },
+  mapPanel: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 8,
+    marginTop: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  mapLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+    gap: 12,
+  },
+  legendItem: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+  },
   controlsContainer: {
     marginBottom: 30,
   },
@@ -329,6 +973,14 @@ const styles = StyleSheet.create({
   stopButton: {
     backgroundColor: '#F44336',
   },
+  pauseRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  pauseButton: {
+    flex: 1,
+  },
   secondaryButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -340,6 +992,9 @@ const styles = StyleSheet.create({
     borderColor: '#FF6B35',
     gap: 8,
   },
+  stackedButton: {
+    marginTop: 12,
+  },
   buttonText: {
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
@@ -384,6 +1039,70 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontFamily: 'Inter-SemiBold',
   },
+  statSource: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#FF6B35',
+    marginTop: 2,
+  },
+  manualCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  manualModeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  manualModeChip: {
+    flex: 1,
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingVertical: 8,
+  },
+  manualModeChipActive: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  manualModeText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+  },
+  manualModeTextActive: {
+    color: '#FFFFFF',
+  },
+  manualRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  manualField: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  manualHint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  manualError: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#F44336',
+    textAlign: 'center',
+    marginTop: 12,
+  },
   manualInput: {
     fontSize: 18,
     fontFamily: 'Inter-Bold',
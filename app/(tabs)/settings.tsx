@@ -1,23 +1,63 @@
 import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, ScrollView } from 'react-native';
 import { useState, useEffect } from 'react';
-import { Save, RotateCcw, IndianRupee, MapPin, Clock } from 'lucide-react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Save, RotateCcw, IndianRupee, MapPin, Clock, Layers, Plus, Trash2, BookOpen, Check, Moon, Route, Search } from 'lucide-react-native';
+import {
+  Tariff,
+  DEFAULT_TARIFF,
+  NightPolicy,
+  RoundingMode,
+  calculateFare,
+  describeNightWindow,
+  describeSlab,
+  nightSurchargePercent,
+  validateTariff,
+} from '@/utils/tariff';
+import { loadFareSettings, saveFareSettings } from '@/utils/fareSettings';
+import { confirmAsync } from '@/utils/confirm';
+import { useFareSettings } from '@/hooks/useFareSettings';
+import { TariffPreset, TARIFF_CATALOG_VERSION, findTariffPreset, getTariffPresets } from '@/utils/tariffCatalog';
+import {
+  RoutingSettings,
+  RoutingProviderId,
+  DEFAULT_ROUTING_SETTINGS,
+  ROUTING_PROVIDERS,
+  loadRoutingSettings,
+  saveRoutingSettings,
+  validateRoutingSettings,
+} from '@/services/routing';
+import {
+  PlaceSearchSettings,
+  PlaceSearchProviderId,
+  DEFAULT_PLACE_SEARCH_SETTINGS,
+  PLACE_SEARCH_PROVIDERS,
+  loadPlaceSearchSettings,
+  parseCountryCodes,
+  savePlaceSearchSettings,
+  validatePlaceSearchSettings,
+} from '@/services/places';
+import SavedPlacesCard from '@/components/SavedPlacesCard';
+import NumberInput from '@/components/NumberInput';
+import { noFocusOutline } from '@/utils/styles';
 
-interface FareSettings {
-  baseFare: number;
-  baseDistance: number;
-  ratePerKm: number;
-}
+const NIGHT_POLICIES: { policy: NightPolicy; label: string }[] = [
+  { policy: 'trip-start', label: 'By trip start' },
+  { policy: 'split-by-time', label: 'Split by time driven' },
+];
 
-const DEFAULT_SETTINGS: FareSettings = {
-  baseFare: 30,
-  baseDistance: 1.5,
-  ratePerKm: 15,
-};
+const ROUNDING_MODES: { mode: RoundingMode; label: string }[] = [
+  { mode: 'nearest', label: 'Nearest' },
+  { mode: 'up', label: 'Up' },
+  { mode: 'down', label: 'Down' },
+];
 
 export default function SettingsScreen() {
-  const [settings, setSettings] = useState<FareSettings>(DEFAULT_SETTINGS);
-  const [tempSettings, setTempSettings] = useState<FareSettings>(DEFAULT_SETTINGS);
+  const settings = useFareSettings();
+  const [tempSettings, setTempSettings] = useState<Tariff>(DEFAULT_TARIFF);
+  const [routingSettings, setRoutingSettings] = useState<RoutingSettings>(DEFAULT_ROUTING_SETTINGS);
+  const [tempRouting, setTempRouting] = useState<RoutingSettings>(DEFAULT_ROUTING_SETTINGS);
+  const [placeSearchSettings, setPlaceSearchSettings] = useState<PlaceSearchSettings>(DEFAULT_PLACE_SEARCH_SETTINGS);
+  const [tempPlaceSearch, setTempPlaceSearch] = useState<PlaceSearchSettings>(DEFAULT_PLACE_SEARCH_SETTINGS);
+  const [countryInput, setCountryInput] = useState(DEFAULT_PLACE_SEARCH_SETTINGS.countryCodes.join(', '));
   const [hasChanges, setHasChanges] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -26,21 +66,22 @@ export default function SettingsScreen() {
   }, []);
 
   useEffect(() => {
-    const hasChanges = 
-      tempSettings.baseFare !== settings.baseFare ||
-      tempSettings.baseDistance !== settings.baseDistance ||
-      tempSettings.ratePerKm !== settings.ratePerKm;
+    const hasChanges = JSON.stringify(tempSettings) !== JSON.stringify(settings)
+      || JSON.stringify(tempRouting) !== JSON.stringify(routingSettings)
+      || JSON.stringify(tempPlaceSearch) !== JSON.stringify(placeSearchSettings);
     setHasChanges(hasChanges);
-  }, [tempSettings, settings]);
+  }, [tempSettings, settings, tempRouting, routingSettings, tempPlaceSearch, placeSearchSettings]);
 
   const loadSettings = async () => {
     try {
-      const savedSettings = await AsyncStorage.getItem('fareSettings');
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(parsed);
-        setTempSettings(parsed);
-      }
+      setTempSettings(await loadFareSettings());
+      const routing = await loadRoutingSettings();
+      setRoutingSettings(routing);
+      setTempRouting(routing);
+      const placeSearch = await loadPlaceSearchSettings();
+      setPlaceSearchSettings(placeSearch);
+      setTempPlaceSearch(placeSearch);
+      setCountryInput(placeSearch.countryCodes.join(', '));
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
@@ -51,18 +92,19 @@ export default function SettingsScreen() {
   const saveSettings = async () => {
     try {
       // Validate inputs
-      if (tempSettings.baseFare <= 0 || tempSettings.baseDistance <= 0 || tempSettings.ratePerKm <= 0) {
-        Alert.alert('Invalid Input', 'All values must be greater than 0');
-        return;
-      }
-
-      if (tempSettings.baseDistance > 10) {
-        Alert.alert('Invalid Input', 'Base distance should not exceed 10 km');
+      const validationError = validateTariff(tempSettings)
+        ?? validateRoutingSettings(tempRouting)
+        ?? validatePlaceSearchSettings(tempPlaceSearch);
+      if (validationError) {
+        Alert.alert('Invalid Input', validationError);
         return;
       }
 
-      await AsyncStorage.setItem('fareSettings', JSON.stringify(tempSettings));
-      setSettings(tempSettings);
+      await saveFareSettings(tempSettings);
+      await saveRoutingSettings(tempRouting);
+      await savePlaceSearchSettings(tempPlaceSearch);
+      setRoutingSettings(tempRouting);
+      setPlaceSearchSettings(tempPlaceSearch);
       setHasChanges(false);
       Alert.alert('Success', 'Settings saved successfully!');
     } catch (error) {
@@ -71,10 +113,13 @@ export default function SettingsScreen() {
     }
   };
 
-  const resetToDefaults = () => {
+  const resetToDefaults = async () => {
     console.log('Reset button clicked');
-    // Use browser confirm for web compatibility
-    const confirmed = confirm('Are you sure you want to reset all settings to Kerala defaults?');
+    const confirmed = await confirmAsync(
+      'Reset Settings',
+      'Are you sure you want to reset all settings to Kerala defaults?',
+      { confirmText: 'Reset', destructive: true }
+    );
     if (confirmed) {
       console.log('Reset confirmed, executing reset...');
       performReset();
@@ -83,10 +128,9 @@ export default function SettingsScreen() {
 
   const performReset = async () => {
     try {
-      console.log('Performing reset to defaults:', DEFAULT_SETTINGS);
-      await AsyncStorage.setItem('fareSettings', JSON.stringify(DEFAULT_SETTINGS));
-      setSettings({ ...DEFAULT_SETTINGS });
-      setTempSettings({ ...DEFAULT_SETTINGS });
+      console.log('Performing reset to defaults:', DEFAULT_TARIFF);
+      await saveFareSettings({ ...DEFAULT_TARIFF });
+      setTempSettings({ ...DEFAULT_TARIFF });
       setHasChanges(false);
       console.log('Reset completed successfully');
       Alert.alert('Success', 'Settings reset to Kerala defaults!');
@@ -96,29 +140,105 @@ export default function SettingsScreen() {
     }
   };
 
-  const updateBaseFare = (value: string) => {
-    const numValue = parseFloat(value) || 0;
-    setTempSettings(prev => ({ ...prev, baseFare: numValue }));
+  // Any manual edit turns a loaded preset into a custom tariff
+  const editTariff = (update: (prev: Tariff) => Tariff) => {
+    setTempSettings(prev => ({ ...update(prev), name: 'Custom', presetId: undefined }));
+  };
+
+  const loadPreset = (preset: TariffPreset) => {
+    setTempSettings({ ...preset.tariff });
+  };
+
+  const updateMinimumFare = (value: number) => {
+    editTariff(prev => ({ ...prev, minimumFare: value }));
+  };
+
+  const updateBaseDistance = (value: number) => {
+    editTariff(prev => ({ ...prev, baseDistance: value }));
   };
 
-  const updateBaseDistance = (value: string) => {
-    const numValue = parseFloat(value) || 0;
-    setTempSettings(prev => ({ ...prev, baseDistance: numValue }));
+  const updateSlab = (index: number, field: 'upToKm' | 'ratePerKm', value: number) => {
+    editTariff(prev => ({
+      ...prev,
+      slabs: prev.slabs.map((slab, i) => (i === index ? { ...slab, [field]: value } : slab)),
+    }));
   };
 
-  const updateRatePerKm = (value: string) => {
-    const numValue = parseFloat(value) || 0;
-    setTempSettings(prev => ({ ...prev, ratePerKm: numValue }));
+  const addSlab = () => {
+    editTariff(prev => {
+      // Close the open-ended slab a few km further on and add a new open-ended one after it
+      const slabs = [...prev.slabs];
+      const last = slabs[slabs.length - 1];
+      const previousEnd = slabs.length > 1 ? slabs[slabs.length - 2].upToKm ?? prev.baseDistance : prev.baseDistance;
+      slabs[slabs.length - 1] = { ...last, upToKm: previousEnd + 5 };
+      slabs.push({ upToKm: null, ratePerKm: last.ratePerKm });
+      return { ...prev, slabs };
+    });
+  };
+
+  const removeSlab = (index: number) => {
+    editTariff(prev => {
+      const slabs = prev.slabs.filter((_, i) => i !== index);
+      slabs[slabs.length - 1] = { ...slabs[slabs.length - 1], upToKm: null };
+      return { ...prev, slabs };
+    });
+  };
+
+  const updateWaitingRate = (value: number) => {
+    editTariff(prev => ({ ...prev, waiting: { ...prev.waiting, ratePerMinute: value } }));
+  };
+
+  const updateFreeWaitingMinutes = (value: number) => {
+    editTariff(prev => ({ ...prev, waiting: { ...prev.waiting, freeMinutes: value } }));
+  };
+
+  const updateWaitingSpeedThreshold = (value: number) => {
+    editTariff(prev => ({ ...prev, waiting: { ...prev.waiting, speedThresholdKmh: value } }));
+  };
+
+  const updateNightPercent = (value: number) => {
+    editTariff(prev => ({ ...prev, night: { ...prev.night, multiplier: 1 + value / 100 } }));
+  };
+
+  const updateNightHour = (field: 'startHour' | 'endHour', value: number) => {
+    editTariff(prev => ({ ...prev, night: { ...prev.night, [field]: value } }));
+  };
+
+  const updateNightPolicy = (policy: NightPolicy) => {
+    editTariff(prev => ({ ...prev, night: { ...prev.night, policy } }));
+  };
+
+  const updateRoundingMode = (mode: RoundingMode) => {
+    editTariff(prev => ({ ...prev, rounding: { ...prev.rounding, mode } }));
+  };
+
+  const updateRoundingStep = (value: number) => {
+    editTariff(prev => ({ ...prev, rounding: { ...prev.rounding, step: value } }));
+  };
+
+  const updateRouting = (field: keyof RoutingSettings, value: string) => {
+    setTempRouting(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateRoutingProvider = (provider: RoutingProviderId) => {
+    setTempRouting(prev => ({ ...prev, provider }));
+  };
+
+  const updatePlaceSearchProvider = (provider: PlaceSearchProviderId) => {
+    setTempPlaceSearch(prev => ({ ...prev, provider }));
+  };
+
+  const updatePlaceSearchUrl = (field: 'nominatimUrl' | 'photonUrl', value: string) => {
+    setTempPlaceSearch(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateCountryCodes = (value: string) => {
+    setCountryInput(value);
+    setTempPlaceSearch(prev => ({ ...prev, countryCodes: parseCountryCodes(value) }));
   };
 
   const calculateExampleFare = (distance: number): number => {
-    let fare: number;
-    if (distance <= tempSettings.baseDistance) {
-      fare = tempSettings.baseFare;
-    } else {
-      fare = tempSettings.baseFare + tempSettings.ratePerKm * (distance - tempSettings.baseDistance);
-    }
-    return Math.round(fare);
+    return calculateFare(tempSettings, { distanceKm: distance, nightFraction: 0 });
   };
 
   if (isLoading) {
@@ -129,6 +249,8 @@ export default function SettingsScreen() {
     );
   }
 
+  const selectedPreset = findTariffPreset(tempSettings.presetId);
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
       <View style={styles.header}>
@@ -136,6 +258,48 @@ export default function SettingsScreen() {
         <Text style={styles.subtitle}>Fare Settings</Text>
       </View>
 
+      <View style={styles.settingsContainer}>
+        <Text style={styles.sectionTitle}>Official Tariffs</Text>
+        <Text style={styles.sectionDescription}>
+          Load a published city or state tariff, then save to start using it
+        </Text>
+
+        <View style={styles.previewCard}>
+          {getTariffPresets().map((preset) => {
+            const isSelected = tempSettings.presetId === preset.id;
+            return (
+              <TouchableOpacity
+                key={preset.id}
+                style={styles.presetRow}
+                onPress={() => loadPreset(preset)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.presetContent}>
+                  <Text style={styles.presetName}>
+                    {preset.region}
+                    {preset.supersededBy ? ' (superseded)' : ''}
+                  </Text>
+                  <Text style={styles.presetDetails}>
+                    ₹{preset.tariff.minimumFare} for {preset.tariff.baseDistance} km · ₹{preset.tariff.slabs[0].ratePerKm}/km · from {preset.effectiveFrom}
+                  </Text>
+                  <Text style={styles.presetDetails}>
+                    Night: {nightSurchargePercent(preset.tariff)}% extra, {describeNightWindow(preset.tariff.night)}
+                  </Text>
+                  {preset.notes && <Text style={styles.presetDetails}>{preset.notes}</Text>}
+                </View>
+                {isSelected ? <Check size={20} color="#4CAF50" /> : <BookOpen size={18} color="#999999" />}
+              </TouchableOpacity>
+            );
+          })}
+          <Text style={styles.selectedPreset}>
+            {selectedPreset
+              ? `Selected: ${selectedPreset.region}, in force from ${selectedPreset.effectiveFrom}. Source: ${selectedPreset.source}`
+              : 'Selected: custom tariff'}
+          </Text>
+          <Text style={styles.catalogVersion}>Tariff catalogue v{TARIFF_CATALOG_VERSION}</Text>
+        </View>
+      </View>
+
       <View style={styles.settingsContainer}>
         <Text style={styles.sectionTitle}>Fare Configuration</Text>
         <Text style={styles.sectionDescription}>
@@ -145,17 +309,17 @@ export default function SettingsScreen() {
         <View style={styles.settingCard}>
           <View style={styles.settingHeader}>
             <IndianRupee size={20} color="#FF6B35" />
-            <Text style={styles.settingLabel}>Base Fare</Text>
+            <Text style={styles.settingLabel}>Minimum Fare</Text>
           </View>
           <Text style={styles.settingDescription}>
             Minimum charge for the initial distance
           </Text>
           <View style={styles.inputContainer}>
             <Text style={styles.currencySymbol}>₹</Text>
-            <TextInput
-              style={[styles.input, {outline: 'none'}]}
-              value={tempSettings.baseFare.toString()}
-              onChangeText={updateBaseFare}
+            <NumberInput
+              style={[styles.input, noFocusOutline]}
+              value={tempSettings.minimumFare}
+              onChangeValue={updateMinimumFare}
               keyboardType="numeric"
               placeholder="30"
               selectionColor="#FF6B35"
@@ -169,13 +333,13 @@ export default function SettingsScreen() {
             <Text style={styles.settingLabel}>Base Distance</Text>
           </View>
           <Text style={styles.settingDescription}>
-            Distance covered by the base fare
+            Distance covered by the minimum fare
           </Text>
           <View style={styles.inputContainer}>
-            <TextInput
-              style={[styles.input, {outline: 'none'}]}
-              value={tempSettings.baseDistance.toString()}
-              onChangeText={updateBaseDistance}
+            <NumberInput
+              style={[styles.input, noFocusOutline]}
+              value={tempSettings.baseDistance}
+              onChangeValue={updateBaseDistance}
               keyboardType="numeric"
               placeholder="1.5"
               selectionColor="#FF6B35"
@@ -186,25 +350,324 @@ export default function SettingsScreen() {
 
         <View style={styles.settingCard}>
           <View style={styles.settingHeader}>
-            <IndianRupee size={20} color="#FF6B35" />
-            <Text style={styles.settingLabel}>Rate per KM</Text>
+            <Layers size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Distance Slabs</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            Per-km rates after the base distance. Each slab applies up to the distance you enter.
+          </Text>
+          {tempSettings.slabs.map((slab, index) => {
+            const isLast = index === tempSettings.slabs.length - 1;
+            return (
+              <View key={index} style={styles.slabRow}>
+                <Text style={styles.slabLabel}>{describeSlab(tempSettings, index)}</Text>
+                <View style={styles.slabInputs}>
+                  {!isLast && (
+                    <View style={[styles.inputContainer, styles.slabInput]}>
+                      <Text style={styles.currencySymbol}>≤</Text>
+                      <NumberInput
+                        style={[styles.input, noFocusOutline]}
+                        value={slab.upToKm ?? NaN}
+                        onChangeValue={(value) => updateSlab(index, 'upToKm', value)}
+                        keyboardType="numeric"
+                        selectionColor="#FF6B35"
+                      />
+                      <Text style={styles.unitSymbol}>km</Text>
+                    </View>
+                  )}
+                  <View style={[styles.inputContainer, styles.slabInput]}>
+                    <Text style={styles.currencySymbol}>₹</Text>
+                    <NumberInput
+                      style={[styles.input, noFocusOutline]}
+                      value={slab.ratePerKm}
+                      onChangeValue={(value) => updateSlab(index, 'ratePerKm', value)}
+                      keyboardType="numeric"
+                      placeholder="15"
+                      selectionColor="#FF6B35"
+                    />
+                    <Text style={styles.unitSymbol}>/km</Text>
+                  </View>
+                  {tempSettings.slabs.length > 1 && (
+                    <TouchableOpacity style={styles.iconButton} onPress={() => removeSlab(index)}>
+                      <Trash2 size={18} color="#F44336" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+          <TouchableOpacity style={styles.addSlabButton} onPress={addSlab}>
+            <Plus size={16} color="#FF6B35" />
+            <Text style={styles.secondaryButtonText}>Add Slab</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.settingCard}>
+          <View style={styles.settingHeader}>
+            <Clock size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Waiting Charge</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            Charged per minute while the meter is stopped or crawling, after the free minutes are used up
+          </Text>
+          <View style={styles.inputRow}>
+            <View style={[styles.inputContainer, styles.slabInput]}>
+              <Text style={styles.currencySymbol}>₹</Text>
+              <NumberInput
+                style={[styles.input, noFocusOutline]}
+                value={tempSettings.waiting.ratePerMinute}
+                onChangeValue={updateWaitingRate}
+                keyboardType="numeric"
+                placeholder="0"
+                selectionColor="#FF6B35"
+              />
+              <Text style={styles.unitSymbol}>/min</Text>
+            </View>
+            <View style={[styles.inputContainer, styles.slabInput]}>
+              <NumberInput
+                style={[styles.input, noFocusOutline]}
+                value={tempSettings.waiting.freeMinutes}
+                onChangeValue={updateFreeWaitingMinutes}
+                keyboardType="numeric"
+                placeholder="0"
+                selectionColor="#FF6B35"
+              />
+              <Text style={styles.unitSymbol}>min free</Text>
+            </View>
+          </View>
+          <View style={[styles.inputContainer, styles.stackedInput]}>
+            <Text style={styles.currencySymbol}>Below</Text>
+            <NumberInput
+              style={[styles.input, noFocusOutline]}
+              value={tempSettings.waiting.speedThresholdKmh}
+              onChangeValue={updateWaitingSpeedThreshold}
+              keyboardType="numeric"
+              placeholder="5"
+              selectionColor="#FF6B35"
+            />
+            <Text style={styles.unitSymbol}>km/h</Text>
+          </View>
+        </View>
+
+        <View style={styles.settingCard}>
+          <View style={styles.settingHeader}>
+            <Moon size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Night Surcharge</Text>
           </View>
           <Text style={styles.settingDescription}>
-            Additional charge for each kilometer after base distance
+            Extra charge and the hours it applies (24-hour clock, currently {describeNightWindow(tempSettings.night)})
           </Text>
           <View style={styles.inputContainer}>
-            <Text style={styles.currencySymbol}>₹</Text>
-            <TextInput
-              style={[styles.input, {outline: 'none'}]}
-              value={tempSettings.ratePerKm.toString()}
-              onChangeText={updateRatePerKm}
+            <NumberInput
+              style={[styles.input, noFocusOutline]}
+              value={nightSurchargePercent(tempSettings)}
+              onChangeValue={updateNightPercent}
               keyboardType="numeric"
-              placeholder="15"
+              placeholder="50"
+              selectionColor="#FF6B35"
+            />
+            <Text style={styles.unitSymbol}>% extra</Text>
+          </View>
+          <View style={[styles.inputRow, styles.stackedInput]}>
+            <View style={[styles.inputContainer, styles.slabInput]}>
+              <Text style={styles.currencySymbol}>From</Text>
+              <NumberInput
+                style={[styles.input, noFocusOutline]}
+                value={tempSettings.night.startHour}
+                onChangeValue={(value) => updateNightHour('startHour', value)}
+                keyboardType="numeric"
+                placeholder="22"
+                selectionColor="#FF6B35"
+              />
+              <Text style={styles.unitSymbol}>:00</Text>
+            </View>
+            <View style={[styles.inputContainer, styles.slabInput]}>
+              <Text style={styles.currencySymbol}>To</Text>
+              <NumberInput
+                style={[styles.input, noFocusOutline]}
+                value={tempSettings.night.endHour}
+                onChangeValue={(value) => updateNightHour('endHour', value)}
+                keyboardType="numeric"
+                placeholder="5"
+                selectionColor="#FF6B35"
+              />
+              <Text style={styles.unitSymbol}>:00</Text>
+            </View>
+          </View>
+          <View style={[styles.inputRow, styles.stackedInput]}>
+            {NIGHT_POLICIES.map(({ policy, label }) => (
+              <TouchableOpacity
+                key={policy}
+                style={[styles.chip, tempSettings.night.policy === policy && styles.chipSelected]}
+                onPress={() => updateNightPolicy(policy)}
+              >
+                <Text style={[styles.chipText, tempSettings.night.policy === policy && styles.chipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.settingCard}>
+          <View style={styles.settingHeader}>
+            <IndianRupee size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Rounding</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            How the final fare is rounded
+          </Text>
+          <View style={styles.inputRow}>
+            {ROUNDING_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.chip, tempSettings.rounding.mode === mode && styles.chipSelected]}
+                onPress={() => updateRoundingMode(mode)}
+              >
+                <Text style={[styles.chipText, tempSettings.rounding.mode === mode && styles.chipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <View style={[styles.inputContainer, styles.slabInput]}>
+              <Text style={styles.currencySymbol}>₹</Text>
+              <NumberInput
+                style={[styles.input, noFocusOutline]}
+                value={tempSettings.rounding.step}
+                onChangeValue={updateRoundingStep}
+                keyboardType="numeric"
+                placeholder="1"
+                selectionColor="#FF6B35"
+              />
+            </View>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.settingsContainer}>
+        <Text style={styles.sectionTitle}>Places & Routing</Text>
+        <Text style={styles.sectionDescription}>
+          Where the Trip Planner looks up addresses and gets driving distances and times from
+        </Text>
+
+        <View style={styles.settingCard}>
+          <View style={styles.settingHeader}>
+            <Search size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Place Search</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            Nominatim and Photon search OpenStreetMap and can point at your own server
+          </Text>
+          <View style={styles.inputRow}>
+            {PLACE_SEARCH_PROVIDERS.map(({ id, label }) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.chip, tempPlaceSearch.provider === id && styles.chipSelected]}
+                onPress={() => updatePlaceSearchProvider(id)}
+              >
+                <Text style={[styles.chipText, tempPlaceSearch.provider === id && styles.chipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {tempPlaceSearch.provider !== 'google' && (
+            <View style={[styles.inputContainer, styles.stackedInput]}>
+              <TextInput
+                style={[styles.input, styles.textInput, noFocusOutline]}
+                value={tempPlaceSearch.provider === 'nominatim' ? tempPlaceSearch.nominatimUrl : tempPlaceSearch.photonUrl}
+                onChangeText={(value) =>
+                  updatePlaceSearchUrl(tempPlaceSearch.provider === 'nominatim' ? 'nominatimUrl' : 'photonUrl', value)
+                }
+                placeholder={tempPlaceSearch.provider === 'nominatim' ? 'http://localhost:8080' : 'http://localhost:2322'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                selectionColor="#FF6B35"
+              />
+            </View>
+          )}
+          <View style={[styles.inputContainer, styles.stackedInput]}>
+            <Text style={styles.currencySymbol}>Countries</Text>
+            <TextInput
+              style={[styles.input, noFocusOutline]}
+              value={countryInput}
+              onChangeText={updateCountryCodes}
+              placeholder="Anywhere"
+              autoCapitalize="none"
+              autoCorrect={false}
               selectionColor="#FF6B35"
             />
-            <Text style={styles.unitSymbol}>/km</Text>
           </View>
         </View>
+
+        <View style={styles.settingCard}>
+          <View style={styles.settingHeader}>
+            <Route size={20} color="#FF6B35" />
+            <Text style={styles.settingLabel}>Route Provider</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            OSRM and GraphHopper use OpenStreetMap data and can point at your own server
+          </Text>
+          <View style={styles.inputRow}>
+            {ROUTING_PROVIDERS.map(({ id, label }) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.chip, tempRouting.provider === id && styles.chipSelected]}
+                onPress={() => updateRoutingProvider(id)}
+              >
+                <Text style={[styles.chipText, tempRouting.provider === id && styles.chipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {tempRouting.provider === 'osrm' && (
+            <View style={[styles.inputContainer, styles.stackedInput]}>
+              <TextInput
+                style={[styles.input, styles.textInput, noFocusOutline]}
+                value={tempRouting.osrmUrl}
+                onChangeText={(value) => updateRouting('osrmUrl', value)}
+                placeholder="http://localhost:5000"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                selectionColor="#FF6B35"
+              />
+            </View>
+          )}
+          {tempRouting.provider === 'graphhopper' && (
+            <>
+              <View style={[styles.inputContainer, styles.stackedInput]}>
+                <TextInput
+                  style={[styles.input, styles.textInput, noFocusOutline]}
+                  value={tempRouting.graphHopperUrl}
+                  onChangeText={(value) => updateRouting('graphHopperUrl', value)}
+                  placeholder="http://localhost:8989"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  selectionColor="#FF6B35"
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.stackedInput]}>
+                <TextInput
+                  style={[styles.input, styles.textInput, noFocusOutline]}
+                  value={tempRouting.graphHopperApiKey}
+                  onChangeText={(value) => updateRouting('graphHopperApiKey', value)}
+                  placeholder="API key (not needed for a self-hosted server)"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  selectionColor="#FF6B35"
+                />
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.settingsContainer}>
+        <SavedPlacesCard />
       </View>
 
       <View style={styles.previewContainer}>
@@ -251,9 +714,15 @@ export default function SettingsScreen() {
 
       <View style={styles.infoContainer}>
         <Text style={styles.infoTitle}>💡 About Fare Settings</Text>
-        <Text style={styles.infoText}>• Base fare is charged for the initial distance</Text>
-        <Text style={styles.infoText}>• Additional distance is charged at the per-km rate</Text>
-        <Text style={styles.infoText}>• Night surcharge (50%) applies from 10 PM to 5 AM</Text>
+        <Text style={styles.infoText}>• Minimum fare is charged for the initial distance</Text>
+        <Text style={styles.infoText}>• Additional distance is charged at each slab&apos;s per-km rate</Text>
+        <Text style={styles.infoText}>• Night surcharge ({nightSurchargePercent(tempSettings)}%) applies from {describeNightWindow(tempSettings.night)}</Text>
+        <Text style={styles.infoText}>
+          • {tempSettings.night.policy === 'trip-start'
+            ? 'Trips starting in the night window are charged the night rate in full'
+            : 'Only the part of a trip driven in the night window is charged the night rate'}
+        </Text>
+        <Text style={styles.infoText}>• Current tariff: {settings.name}</Text>
         <Text style={styles.infoText}>• Settings are saved locally on your device</Text>
       </View>
     </ScrollView>
@@ -366,6 +835,103 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     textAlign: 'right',
   },
+  textInput: {
+    textAlign: 'left',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+    gap: 12,
+  },
+  presetContent: {
+    flex: 1,
+  },
+  presetName: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginBottom: 2,
+  },
+  presetDetails: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+  },
+  selectedPreset: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+    marginTop: 8,
+  },
+  catalogVersion: {
+    fontSize: 11,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textAlign: 'right',
+    marginTop: 8,
+  },
+  slabRow: {
+    marginBottom: 12,
+  },
+  slabLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginBottom: 6,
+  },
+  slabInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  slabInput: {
+    flex: 1,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stackedInput: {
+    marginTop: 8,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  addSlabButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    borderStyle: 'dashed',
+    paddingVertical: 10,
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F8F9FA',
+  },
+  chipSelected: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFF3EE',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+  },
+  chipTextSelected: {
+    color: '#FF6B35',
+  },
   previewContainer: {
     marginBottom: 30,
   },
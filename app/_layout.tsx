@@ -6,6 +6,8 @@ import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import { SplashScreen } from 'expo-router';
 import CustomSplashScreen from '@/components/SplashScreen';
+// Defines the background location task, which has to exist before any screen mounts
+import '@/services/location/backgroundLocationProvider';
 
 SplashScreen.preventAutoHideAsync();
 
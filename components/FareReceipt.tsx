@@ -0,0 +1,276 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Platform, Alert } from 'react-native';
+import { X, Share2, MessageCircle, Image as ImageIcon } from 'lucide-react-native';
+import { captureRef } from 'react-native-view-shot';
+import { Receipt, formatReceiptDuration, formatReceiptRoute, formatReceiptText } from '@/utils/receipt';
+import { shareImage, shareText, shareViaWhatsApp } from '@/utils/share';
+
+interface FareReceiptProps {
+  visible: boolean;
+  receipt: Receipt | null;
+  onClose: () => void;
+}
+
+export default function FareReceipt({ visible, receipt, onClose }: FareReceiptProps) {
+  const receiptRef = useRef<View>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!receipt) return null;
+
+  const text = formatReceiptText(receipt);
+  const route = formatReceiptRoute(receipt);
+  const title = receipt.kind === 'meter' ? 'Ride Receipt' : 'Fare Estimate';
+  const issued = new Date(receipt.issuedAt).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const handleShareText = () => {
+    shareText(text, title).catch(() => Alert.alert('Error', 'Failed to share the receipt'));
+  };
+
+  const handleShareWhatsApp = () => {
+    shareViaWhatsApp(text).catch(() => Alert.alert('Error', 'Could not open WhatsApp'));
+  };
+
+  const handleShareImage = async () => {
+    setIsExporting(true);
+    try {
+      const uri = await captureRef(receiptRef, {
+        format: 'png',
+        quality: 1,
+        result: Platform.OS === 'web' ? 'data-uri' : 'tmpfile',
+      });
+      await shareImage(uri, `aye-auto-${receipt.kind}-${receipt.issuedAt}.png`);
+    } catch (error) {
+      console.error('Error exporting receipt image:', error);
+      Alert.alert('Error', 'Failed to export the receipt as an image');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#666666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {/* Everything inside this view ends up in the exported image */}
+            <View ref={receiptRef} collapsable={false} style={styles.receipt}>
+              <Text style={styles.brand}>Aye Auto</Text>
+              <Text style={styles.receiptMeta}>{issued}</Text>
+              {route && <Text style={styles.route}>{route}</Text>}
+
+              <View style={styles.statsRow}>
+                <View style={styles.stat}>
+                  <Text style={styles.statLabel}>Distance</Text>
+                  <Text style={styles.statValue}>{receipt.distanceKm.toFixed(2)} km</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statLabel}>{receipt.kind === 'meter' ? 'Time' : 'Est. Time'}</Text>
+                  <Text style={styles.statValue}>{formatReceiptDuration(receipt.durationSeconds)}</Text>
+                </View>
+              </View>
+
+              <View style={styles.divider} />
+              {receipt.lines.map((line, index) => (
+                <View key={index} style={styles.lineRow}>
+                  <Text style={styles.lineLabel}>{line.label}</Text>
+                  <Text style={styles.lineAmount}>₹{line.amount.toFixed(2)}</Text>
+                </View>
+              ))}
+              <View style={[styles.lineRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Total</Text>
+                <Text style={styles.totalAmount}>₹{receipt.total.toFixed(2)}</Text>
+              </View>
+
+              <Text style={styles.footer}>
+                Tariff: {receipt.tariffName}{receipt.isNight ? ' · 🌙 Night rate' : ''}
+              </Text>
+              {receipt.kind === 'estimate' && (
+                <Text style={styles.footer}>Estimate only. The metered fare may differ.</Text>
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={handleShareWhatsApp}>
+              <MessageCircle size={18} color="#FFFFFF" />
+              <Text style={styles.actionText}>WhatsApp</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleShareText}>
+              <Share2 size={18} color="#FFFFFF" />
+              <Text style={styles.actionText}>Text</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, isExporting && styles.actionButtonDisabled]}
+              onPress={handleShareImage}
+              disabled={isExporting}
+            >
+              <ImageIcon size={18} color="#FFFFFF" />
+              <Text style={styles.actionText}>{isExporting ? 'Saving...' : 'Image'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#F8F9FA',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  receipt: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  brand: {
+    fontSize: 22,
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+    textAlign: 'center',
+  },
+  receiptMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  route: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+    gap: 12,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  statLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  statValue: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+  },
+  divider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+    borderStyle: 'dashed',
+    marginVertical: 16,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  lineLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    flex: 1,
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+    paddingTop: 8,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+  },
+  totalAmount: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#FF6B35',
+  },
+  footer: {
+    fontSize: 11,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 6,
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#CCCCCC',
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
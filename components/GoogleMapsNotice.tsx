@@ -0,0 +1,47 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { TriangleAlert } from 'lucide-react-native';
+import { useGoogleMapsStatus } from '@/hooks/useGoogleMapsStatus';
+
+// Shown in place of silent failures when the Google key is missing, rejected or unreachable
+export default function GoogleMapsNotice() {
+  const { status, errorMessage } = useGoogleMapsStatus();
+  if (!errorMessage) return null;
+
+  return (
+    <View style={styles.notice}>
+      <TriangleAlert size={20} color="#F44336" />
+      <View style={styles.content}>
+        <Text style={styles.title}>
+          {status === 'failed' ? 'Google Maps unavailable' : 'Google Maps is not set up'}
+        </Text>
+        <Text style={styles.message}>{errorMessage}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    backgroundColor: '#FFEBEE',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#C62828',
+    marginBottom: 4,
+  },
+  message: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    lineHeight: 18,
+  },
+});
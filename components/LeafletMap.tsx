@@ -0,0 +1,59 @@
+import { useState, useRef, useEffect } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { Coordinates } from '@/services/places';
+import { MAP_BASE_URL, MapData, buildMapHtml, parseMapMessage, toScriptJson } from '@/utils/mapHtml';
+
+export interface LeafletMapProps {
+  data: MapData;
+  style?: StyleProp<ViewStyle>;
+  onPress?: (coordinates: Coordinates) => void;
+}
+
+const renderInWebView = (webView: WebView | null, data: MapData) => {
+  webView?.injectJavaScript(`window.renderMap && window.renderMap(${toScriptJson(data)}); true;`);
+};
+
+// Native version, the web build uses LeafletMap.web.tsx. The page is built once from the
+// first data, later changes are drawn in place so the map doesn't reload on every GPS fix.
+export default function LeafletMap({ data, style, onPress }: LeafletMapProps) {
+  const webViewRef = useRef<WebView>(null);
+  const isLoadedRef = useRef(false);
+  const [html] = useState(() => buildMapHtml(data));
+
+  useEffect(() => {
+    if (isLoadedRef.current) renderInWebView(webViewRef.current, data);
+  }, [data]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <WebView
+        ref={webViewRef}
+        originWhitelist={['*']}
+        source={{ html, baseUrl: MAP_BASE_URL }}
+        style={styles.webView}
+        scrollEnabled={false}
+        onMessage={(event) => {
+          const message = parseMapMessage(event.nativeEvent.data);
+          if (message) onPress?.({ latitude: message.latitude, longitude: message.longitude });
+        }}
+        onLoadEnd={() => {
+          isLoadedRef.current = true;
+          renderInWebView(webViewRef.current, data); // Catch up on anything that changed while the page was loading
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 220,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#E0E0E0',
+  },
+  webView: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,52 @@
+import { useState, useRef, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { MapData, buildMapHtml, parseMapMessage } from '@/utils/mapHtml';
+import type { LeafletMapProps } from '@/components/LeafletMap';
+
+const renderInFrame = (frame: HTMLIFrameElement | null, data: MapData) => {
+  const frameWindow = frame?.contentWindow as (Window & { renderMap?: (data: MapData) => void }) | null | undefined;
+  frameWindow?.renderMap?.(data);
+};
+
+// react-native-webview has no web implementation, so the browser gets the same page in an
+// iframe. srcdoc frames share our origin, so updates call renderMap on the frame directly.
+export default function LeafletMap({ data, style, onPress }: LeafletMapProps) {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [html] = useState(() => buildMapHtml(data));
+
+  useEffect(() => {
+    renderInFrame(frameRef.current, data);
+  }, [data]);
+
+  useEffect(() => {
+    if (!onPress) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      const message = parseMapMessage(event.data);
+      if (message) onPress({ latitude: message.latitude, longitude: message.longitude });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onPress]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <iframe
+        ref={frameRef}
+        srcDoc={html}
+        title="Map"
+        onLoad={() => renderInFrame(frameRef.current, data)}
+        style={{ border: 0, width: '100%', height: '100%' }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 220,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#E0E0E0',
+  },
+});
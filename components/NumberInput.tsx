@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { TextInput, TextInputProps } from 'react-native';
+
+interface NumberInputProps extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+  value: number;
+  onChangeValue: (value: number) => void; // NaN while the text isn't a number
+}
+
+const formatNumber = (value: number) => (Number.isFinite(value) ? value.toString() : '');
+
+const parseNumber = (text: string): number => {
+  const trimmed = text.trim().replace(',', '.');
+  return trimmed === '' ? NaN : Number(trimmed);
+};
+
+// Keeps the typed text, so "0." or an emptied field survive until the number is finished.
+// The text is only redone from the value once the field loses focus, or when a preset or reset
+// changes the value meanwhile.
+export default function NumberInput({ value, onChangeValue, onFocus, onBlur, ...props }: NumberInputProps) {
+  const [text, setText] = useState(formatNumber(value));
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    if (!isFocused) setText(formatNumber(value));
+  }, [value, isFocused]);
+
+  return (
+    <TextInput
+      {...props}
+      value={text}
+      onChangeText={(changed) => {
+        setText(changed);
+        onChangeValue(parseNumber(changed));
+      }}
+      onFocus={(event) => {
+        setIsFocused(true);
+        onFocus?.(event);
+      }}
+      onBlur={(event) => {
+        setIsFocused(false);
+        onBlur?.(event);
+      }}
+    />
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { X, Check } from 'lucide-react-native';
+import LeafletMap from '@/components/LeafletMap';
+import { Coordinates, PlaceSuggestion } from '@/services/places';
+import { MapData } from '@/utils/mapHtml';
+
+interface PinDropPickerProps {
+  visible: boolean;
+  title: string;
+  initialCoordinates?: Coordinates;
+  describeCoordinates: (coordinates: Coordinates) => Promise<PlaceSuggestion>;
+  onConfirm: (place: PlaceSuggestion) => void;
+  onClose: () => void;
+}
+
+export default function PinDropPicker({
+  visible,
+  title,
+  initialCoordinates,
+  describeCoordinates,
+  onConfirm,
+  onClose,
+}: PinDropPickerProps) {
+  const [pin, setPin] = useState<Coordinates | null>(initialCoordinates ?? null);
+  const [place, setPlace] = useState<PlaceSuggestion | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const latestPinRef = useRef<Coordinates | null>(null);
+
+  // Start from the field's current position every time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setPin(initialCoordinates ?? null);
+      setPlace(null);
+    }
+  }, [visible, initialCoordinates]);
+
+  const mapData = useMemo<MapData>(() => ({
+    markers: pin ? [{ coordinates: pin, color: '#FF6B35', label: title }] : [],
+    polylines: [],
+    follow: initialCoordinates,
+    keepView: true,
+  }), [pin, title, initialCoordinates]);
+
+  const handleMapPress = async (coordinates: Coordinates) => {
+    latestPinRef.current = coordinates;
+    setPin(coordinates);
+    setPlace(null);
+    setIsResolving(true);
+    const resolved = await describeCoordinates(coordinates);
+    // Taps can land faster than the address lookups, keep the newest one
+    if (latestPinRef.current === coordinates) {
+      setPlace(resolved);
+      setIsResolving(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!place) return;
+    onConfirm(place);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={22} color="#666666" />
+            </TouchableOpacity>
+          </View>
+
+          {visible && <LeafletMap data={mapData} style={styles.map} onPress={handleMapPress} />}
+
+          <View style={styles.addressRow}>
+            {isResolving ? (
+              <ActivityIndicator size="small" color="#FF6B35" />
+            ) : (
+              <Text style={styles.addressText} numberOfLines={2}>
+                {place ? place.description : 'Tap the map to drop a pin'}
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, !place && styles.confirmButtonDisabled]}
+            onPress={handleConfirm}
+            disabled={!place}
+          >
+            <Check size={18} color="#FFFFFF" />
+            <Text style={styles.confirmText}>Use this location</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#F8F9FA',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: '90%',
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#1565C0',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  map: {
+    height: 360,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  addressRow: {
+    minHeight: 48,
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  addressText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+  },
+  confirmButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 6,
+    marginTop: 12,
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#CCCCCC',
+  },
+  confirmText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
@@ -8,18 +8,16 @@ import {
   ActivityIndicator,
   ScrollView,
   TouchableWithoutFeedback,
+  Alert,
 } from 'react-native';
-import { MapPin, Clock } from 'lucide-react-native';
-import { useGooglePlaces } from '@/hooks/useGooglePlaces';
-
-interface PlaceSuggestion {
-  place_id: string;
-  description: string;
-  structured_formatting: {
-    main_text: string;
-    secondary_text: string;
-  };
-}
+import { MapPin, Clock, LocateFixed, MapPinned, Star } from 'lucide-react-native';
+import { usePlaceSearch } from '@/hooks/usePlaceSearch';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { Coordinates, PlaceSuggestion } from '@/services/places';
+import { getCurrentLocationProvider } from '@/services/location';
+import PinDropPicker from '@/components/PinDropPicker';
+import { searchLocalPlaces, toSavedSuggestion } from '@/utils/savedPlaces';
+import { noFocusOutline } from '@/utils/styles';
 
 interface PlaceAutocompleteProps {
   placeholder: string;
@@ -31,6 +29,8 @@ interface PlaceAutocompleteProps {
   zIndex?: number;
   onFocus?: () => void;
   onBlur?: () => void;
+  coordinates?: Coordinates; // Where the pin picker starts, usually the position already chosen
+  pickerTitle?: string;
 }
 
 export default function PlaceAutocomplete({
@@ -43,19 +43,16 @@ export default function PlaceAutocomplete({
   zIndex = 1000,
   onFocus,
   onBlur,
+  coordinates,
+  pickerTitle = 'Pick on map',
 }: PlaceAutocompleteProps) {
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
-  const [recentSearches] = useState<string[]>([
-    'Mumbai Central Station',
-    'Chhatrapati Shivaji Airport',
-    'Gateway of India',
-    'Bandra-Kurla Complex',
-    'Colaba Causeway',
-  ]);
-  
+  const [isLocating, setIsLocating] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
   const inputRef = useRef<TextInput>(null);
-  const { suggestions, isLoading, searchPlaces, clearSuggestions } = useGooglePlaces();
+  const { suggestions, isLoading, searchPlaces, describeCoordinates, clearSuggestions } = usePlaceSearch();
+  const { savedPlaces, recentPlaces, refresh: refreshSavedPlaces, rememberPlace } = useSavedPlaces();
 
   useEffect(() => {
     const delayedSearch = setTimeout(() => {
@@ -71,6 +68,7 @@ export default function PlaceAutocomplete({
 
   const handlePlaceSelect = (place: PlaceSuggestion) => {
     onPlaceSelect(place);
+    rememberPlace(place);
     setShowSuggestions(false);
     // Don't blur immediately to prevent the need for double-click
     setTimeout(() => {
@@ -79,19 +77,36 @@ export default function PlaceAutocomplete({
     }, 100);
   };
 
-  const handleRecentSelect = (recent: string) => {
-    onChangeText(recent);
-    setShowSuggestions(false);
-    // Don't blur immediately to prevent the need for double-click
-    setTimeout(() => {
-      setIsFocused(false);
-      inputRef.current?.blur();
-    }, 100);
+  const handleUseCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const provider = getCurrentLocationProvider();
+      if (!(await provider.requestPermission())) {
+        Alert.alert('Permission Required', 'Location permission is needed to use your current location.');
+        return;
+      }
+      const fix = await provider.getCurrentPosition();
+      handlePlaceSelect(await describeCoordinates({
+        latitude: fix.coords.latitude,
+        longitude: fix.coords.longitude,
+      }));
+    } catch (error) {
+      console.error('Error getting current location:', error);
+      Alert.alert('Error', 'Could not get your current location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handlePinConfirm = (place: PlaceSuggestion) => {
+    setShowPicker(false);
+    handlePlaceSelect(place);
   };
 
   const handleInputFocus = () => {
     setIsFocused(true);
     setShowSuggestions(true);
+    refreshSavedPlaces();
     onFocus?.();
   };
 
@@ -111,14 +126,14 @@ export default function PlaceAutocomplete({
     }
   };
 
-  const renderSuggestion = ({ item }: { item: PlaceSuggestion }) => (
+  const renderSuggestion = ({ item }: { item: PlaceSuggestion }, itemIcon: React.ReactNode = <MapPin size={16} color="#666666" />) => (
     <TouchableOpacity
       style={styles.suggestionItem}
       onPress={() => handlePlaceSelect(item)}
       activeOpacity={0.8}
       delayPressIn={0}
     >
-      <MapPin size={16} color="#666666" style={styles.suggestionIcon} />
+      <View style={styles.suggestionIcon}>{itemIcon}</View>
       <View style={styles.suggestionContent}>
         <Text style={styles.suggestionMain} numberOfLines={1}>
           {item.structured_formatting.main_text}
@@ -130,24 +145,14 @@ export default function PlaceAutocomplete({
     </TouchableOpacity>
   );
 
-  const renderRecentSearch = ({ item }: { item: string }) => (
-    <TouchableOpacity
-      style={styles.suggestionItem}
-      onPress={() => handleRecentSelect(item)}
-      activeOpacity={0.8}
-      delayPressIn={0}
-    >
-      <Clock size={16} color="#999999" style={styles.suggestionIcon} />
-      <View style={styles.suggestionContent}>
-        <Text style={styles.suggestionMain} numberOfLines={1}>{item}</Text>
-        <Text style={styles.suggestionSecondary}>Recent search</Text>
-      </View>
-    </TouchableOpacity>
-  );
-
   const shouldShowSuggestions = showSuggestions && isFocused;
-  const hasSearchResults = suggestions.length > 0;
-  const showRecentSearches = value.length === 0;
+  const local = searchLocalPlaces(savedPlaces, recentPlaces, value);
+  const localIds = new Set([
+    ...local.saved.map(saved => saved.place.place_id),
+    ...local.recent.map(recent => recent.place_id),
+  ]);
+  const remoteSuggestions = value.length > 2 ? suggestions.filter(item => !localIds.has(item.place_id)) : [];
+  const hasAnyResults = local.saved.length + local.recent.length + remoteSuggestions.length > 0;
 
   const dynamicZIndex = isFocused ? zIndex + 1000 : zIndex;
   return (
@@ -161,7 +166,7 @@ export default function PlaceAutocomplete({
           {icon}
           <TextInput
             ref={inputRef}
-            style={[styles.input, {outline: 'none'}]}
+            style={[styles.input, noFocusOutline]}
             placeholder={placeholder}
             placeholderTextColor="#999999"
             value={value}
@@ -175,12 +180,31 @@ export default function PlaceAutocomplete({
           {isLoading && (
             <ActivityIndicator size="small" color="#FF6B35" style={styles.loader} />
           )}
+          {isLocating ? (
+            <ActivityIndicator size="small" color="#1565C0" style={styles.actionButton} />
+          ) : (
+            <TouchableOpacity onPress={handleUseCurrentLocation} style={styles.actionButton}>
+              <LocateFixed size={20} color="#1565C0" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => setShowPicker(true)} style={styles.actionButton}>
+            <MapPinned size={20} color="#1565C0" />
+          </TouchableOpacity>
         </View>
       </View>
 
+      <PinDropPicker
+        visible={showPicker}
+        title={pickerTitle}
+        initialCoordinates={coordinates}
+        describeCoordinates={describeCoordinates}
+        onConfirm={handlePinConfirm}
+        onClose={() => setShowPicker(false)}
+      />
+
       {shouldShowSuggestions && (
         <View style={[styles.suggestionsContainer, { zIndex: dynamicZIndex + 2 }]}>
-          {hasSearchResults ? (
+          {hasAnyResults ? (
             <ScrollView
               style={styles.suggestionsList}
               keyboardShouldPersistTaps="handled"
@@ -188,30 +212,28 @@ export default function PlaceAutocomplete({
               nestedScrollEnabled={true}
               scrollEnabled={true}
             >
-              {suggestions.map((item) => (
+              {local.saved.length > 0 && <Text style={styles.sectionTitle}>Saved Places</Text>}
+              {local.saved.map((saved) => (
+                <View key={`saved-${saved.id}`}>
+                  {renderSuggestion({ item: toSavedSuggestion(saved) }, <Star size={16} color="#FF6B35" />)}
+                </View>
+              ))}
+              {local.recent.length > 0 && <Text style={styles.sectionTitle}>Recent Searches</Text>}
+              {local.recent.map((item) => (
+                <View key={`recent-${item.place_id}`}>
+                  {renderSuggestion({ item }, <Clock size={16} color="#999999" />)}
+                </View>
+              ))}
+              {remoteSuggestions.length > 0 && local.saved.length + local.recent.length > 0 && (
+                <Text style={styles.sectionTitle}>Search Results</Text>
+              )}
+              {remoteSuggestions.map((item) => (
                 <View key={item.place_id}>
                   {renderSuggestion({ item })}
                 </View>
               ))}
             </ScrollView>
-          ) : showRecentSearches ? (
-            <View>
-              <Text style={styles.sectionTitle}>Recent Searches</Text>
-              <ScrollView
-                style={styles.suggestionsList}
-                keyboardShouldPersistTaps="handled"
-                showsVerticalScrollIndicator={false}
-                nestedScrollEnabled={true}
-                scrollEnabled={true}
-              >
-                {recentSearches.map((item, index) => (
-                  <View key={`recent-${index}`}>
-                    {renderRecentSearch({ item })}
-                  </View>
-                ))}
-              </ScrollView>
-            </View>
-          ) : value.length > 2 ? (
+          ) : value.length > 2 && !isLoading ? (
             <View style={styles.noResultsContainer}>
               <Text style={styles.noResultsText}>No results found</Text>
               <Text style={styles.noResultsSubtext}>Try a different search term</Text>
@@ -263,6 +285,10 @@ const styles = StyleSheet.create({
   loader: {
     marginLeft: 8,
   },
+  actionButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
   suggestionsContainer: {
     position: 'absolute',
     top: '100%',
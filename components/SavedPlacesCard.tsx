@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { Star, Pin, PinOff, Pencil, Trash2, Plus, MapPin } from 'lucide-react-native';
+import PlaceAutocomplete from '@/components/PlaceAutocomplete';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { PlaceSuggestion } from '@/services/places';
+import { SavedPlace, clearRecentPlaces, toTextSuggestion, validateSavedPlace } from '@/utils/savedPlaces';
+import { confirmAsync } from '@/utils/confirm';
+import { noFocusOutline } from '@/utils/styles';
+
+interface PlaceDraft {
+  id?: string;
+  name: string;
+  address: string;
+  place: PlaceSuggestion | null; // Null until an address is picked, or after it's edited by hand
+  pinned: boolean;
+}
+
+const EMPTY_DRAFT: PlaceDraft = { name: '', address: '', place: null, pinned: true };
+
+// Saved places are stored as soon as they're changed, separately from the tariff's Save button
+export default function SavedPlacesCard() {
+  const { savedPlaces, recentPlaces, refresh, upsertPlace, removePlace, togglePinned } = useSavedPlaces();
+  const [draft, setDraft] = useState<PlaceDraft | null>(null);
+
+  const startEditing = (saved: SavedPlace) => {
+    setDraft({
+      id: saved.id,
+      name: saved.name,
+      address: saved.place.description,
+      place: saved.place,
+      pinned: saved.pinned,
+    });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const place = draft.place ?? (draft.address.trim() ? toTextSuggestion(draft.address) : null);
+    const error = validateSavedPlace(draft.name, place);
+    if (error || !place) {
+      Alert.alert('Invalid Place', error ?? 'Choose an address for the place');
+      return;
+    }
+    try {
+      await upsertPlace({ id: draft.id, name: draft.name, place, pinned: draft.pinned });
+      setDraft(null);
+    } catch {
+      Alert.alert('Error', 'Failed to save the place');
+    }
+  };
+
+  const handleDelete = async (saved: SavedPlace) => {
+    const confirmed = await confirmAsync(
+      'Delete Place',
+      `Delete the saved place "${saved.name}"?`,
+      { confirmText: 'Delete', destructive: true }
+    );
+    if (confirmed) {
+      removePlace(saved.id).catch(() => Alert.alert('Error', 'Failed to delete the place'));
+    }
+  };
+
+  const handleTogglePinned = (saved: SavedPlace) => {
+    togglePinned(saved).catch(() => Alert.alert('Error', 'Failed to update the place'));
+  };
+
+  const handleClearRecent = async () => {
+    const confirmed = await confirmAsync('Clear Recent', 'Clear all recent searches?', {
+      confirmText: 'Clear',
+      destructive: true,
+    });
+    if (confirmed) {
+      await clearRecentPlaces();
+      refresh();
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Star size={20} color="#FF6B35" />
+        <Text style={styles.label}>Saved Places</Text>
+      </View>
+      <Text style={styles.description}>
+        Named places show up in the pickup and drop lists, even offline. Pinned ones show before you type.
+      </Text>
+
+      {savedPlaces.map((saved) => (
+        <View key={saved.id} style={styles.placeRow}>
+          <View style={styles.placeContent}>
+            <Text style={styles.placeName}>{saved.name}</Text>
+            <Text style={styles.placeAddress} numberOfLines={1}>{saved.place.description}</Text>
+          </View>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleTogglePinned(saved)}>
+            {saved.pinned ? <Pin size={18} color="#FF6B35" /> : <PinOff size={18} color="#999999" />}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => startEditing(saved)}>
+            <Pencil size={18} color="#1565C0" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(saved)}>
+            <Trash2 size={18} color="#F44336" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {draft ? (
+        <View style={styles.form}>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, noFocusOutline]}
+              value={draft.name}
+              onChangeText={(name) => setDraft({ ...draft, name })}
+              placeholder="Name, e.g. Home, Work, Station"
+              placeholderTextColor="#999999"
+              selectionColor="#FF6B35"
+            />
+          </View>
+          <PlaceAutocomplete
+            placeholder="Address"
+            value={draft.address}
+            onChangeText={(address) => setDraft({ ...draft, address, place: null })}
+            onPlaceSelect={(place) => setDraft({ ...draft, address: place.description, place })}
+            icon={<MapPin size={20} color="#FF6B35" />}
+            containerStyle={styles.addressInput}
+            coordinates={draft.place?.coordinates}
+            pickerTitle={draft.name.trim() || 'Pick place'}
+          />
+          <View style={styles.formActions}>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveDraft}>
+              <Text style={styles.saveButtonText}>{draft.id ? 'Update Place' : 'Save Place'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={() => setDraft(EMPTY_DRAFT)}>
+          <Plus size={16} color="#FF6B35" />
+          <Text style={styles.addButtonText}>Add Place</Text>
+        </TouchableOpacity>
+      )}
+
+      {recentPlaces.length > 0 && (
+        <TouchableOpacity style={styles.clearRecent} onPress={handleClearRecent}>
+          <Text style={styles.clearRecentText}>Clear {recentPlaces.length} recent searches</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+    marginLeft: 8,
+  },
+  description: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    marginBottom: 12,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  placeContent: {
+    flex: 1,
+  },
+  placeName: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#333333',
+  },
+  placeAddress: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#666666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  form: {
+    marginTop: 12,
+    zIndex: 10,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#333333',
+    paddingVertical: 12,
+  },
+  addressInput: {
+    marginTop: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  saveButton: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#FF6B35',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#666666',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    borderStyle: 'dashed',
+    paddingVertical: 10,
+    marginTop: 12,
+    gap: 6,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
+  },
+  clearRecent: {
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  clearRecentText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#999999',
+    textDecorationLine: 'underline',
+  },
+});
@@ -1,103 +1,97 @@
-import { useState, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Default Kerala auto rickshaw fare constants
-const DEFAULT_MIN_CHARGE = 30; // ₹30 for first 1.5 km
-const DEFAULT_BASE_DISTANCE = 1.5; // 1.5 km base distance
-const DEFAULT_RATE_PER_KM = 15; // ₹15 per km after 1.5 km
-const NIGHT_SURCHARGE = 0.5; // 50% extra for night trips (10 PM - 5 AM)
-
-interface FareSettings {
-  baseFare: number;
-  baseDistance: number;
-  ratePerKm: number;
-}
-
-export const isNightTime = (): boolean => {
-  const hour = new Date().getHours();
-  return hour >= 22 || hour < 5; // 10 PM to 5 AM
-};
-
-const loadFareSettings = async (): Promise<FareSettings> => {
-  try {
-    const savedSettings = await AsyncStorage.getItem('fareSettings');
-    if (savedSettings) {
-      return JSON.parse(savedSettings);
-    }
-  } catch (error) {
-    console.error('Error loading fare settings:', error);
-  }
-  
-  return {
-    baseFare: DEFAULT_MIN_CHARGE,
-    baseDistance: DEFAULT_BASE_DISTANCE,
-    ratePerKm: DEFAULT_RATE_PER_KM,
-  };
-};
+import { useCallback, useState, useRef } from 'react';
+import { useFareSettings } from '@/hooks/useFareSettings';
+import { Tariff, FareBreakdown, calculateFareBreakdown, isNightTime, meteredNightFraction } from '@/utils/tariff';
 
 export function useFareCalculator() {
   const [distance, setDistance] = useState(0);
   const [fare, setFare] = useState(0);
   const [isNight, setIsNight] = useState(false);
-  const [fareSettings, setFareSettings] = useState<FareSettings>({
-    baseFare: DEFAULT_MIN_CHARGE,
-    baseDistance: DEFAULT_BASE_DISTANCE,
-    ratePerKm: DEFAULT_RATE_PER_KM,
-  });
-
-  // Load settings when hook is initialized
-  useEffect(() => {
-    loadFareSettings().then(setFareSettings);
-  }, []);
+  const [nightFraction, setNightFraction] = useState(0);
+  const [waitingMinutes, setWaitingMinutes] = useState(0);
+  const [breakdown, setBreakdown] = useState<FareBreakdown | null>(null);
+  const savedSettings = useFareSettings();
 
-  const _calculateFareInternal = (distanceKm: number, isNightActive: boolean, settings?: FareSettings): number => {
-    const currentSettings = settings || fareSettings;
-    let fare: number;
+  // Night state for the trip in progress: when it started and how much distance was driven at night
+  const tripStartRef = useRef<Date | null>(null);
+  const lastDistanceRef = useRef(0);
+  const nightDistanceRef = useRef(0);
+  // While a ride is running it keeps the tariff it started with
+  const lockedTariffRef = useRef<Tariff | null>(null);
+  const fareSettings = lockedTariffRef.current ?? savedSettings;
 
-    // Base fare calculation
-    if (distanceKm <= currentSettings.baseDistance) {
-      fare = currentSettings.baseFare;
-    } else {
-      fare = currentSettings.baseFare + currentSettings.ratePerKm * (distanceKm - currentSettings.baseDistance);
+  const _trackNightDistance = useCallback((newDistance: number, settings: Tariff): number => {
+    const now = new Date();
+    if (!tripStartRef.current) {
+      tripStartRef.current = now;
     }
 
-    // Apply night surcharge if applicable
-    if (isNightActive) {
-      fare *= (1 + NIGHT_SURCHARGE);
+    // Credit the distance since the last update to the night bucket if it was driven at night
+    const delta = newDistance - lastDistanceRef.current;
+    if (delta > 0 && isNightTime(settings.night, now)) {
+      nightDistanceRef.current += delta;
     }
+    nightDistanceRef.current = Math.min(nightDistanceRef.current, newDistance);
+    lastDistanceRef.current = newDistance;
 
-    // Round to nearest rupee
-    return Math.round(fare);
-  };
+    return meteredNightFraction(settings.night, tripStartRef.current, newDistance, nightDistanceRef.current, now);
+  }, []);
 
-  const updateDistance = (newDistance: number) => {
-    // Reload settings each time distance is updated to get latest values
-    loadFareSettings().then(settings => {
-      setFareSettings(settings);
-      const currentIsNight = isNightTime();
-      setIsNight(currentIsNight);
-      setDistance(newDistance);
-      setFare(_calculateFareInternal(newDistance, currentIsNight, settings));
+  // Stable between renders so the meter screen can call it from an effect
+  const updateDistance = useCallback((newDistance: number, newWaitingMinutes = 0) => {
+    // The saved tariff is always current, unless the ride has its own
+    const settings = lockedTariffRef.current ?? savedSettings;
+    const currentNightFraction = _trackNightDistance(newDistance, settings);
+    const newBreakdown = calculateFareBreakdown(settings, {
+      distanceKm: newDistance,
+      nightFraction: currentNightFraction,
+      waitingMinutes: newWaitingMinutes,
     });
+    setIsNight(currentNightFraction > 0);
+    setNightFraction(currentNightFraction);
+    setDistance(newDistance);
+    setWaitingMinutes(newWaitingMinutes);
+    setBreakdown(newBreakdown);
+    setFare(newBreakdown.total);
+  }, [savedSettings, _trackNightDistance]);
+
+  const lockTariff = (tariff: Tariff | null) => {
+    lockedTariffRef.current = tariff;
+  };
+
+  // Picks up the night accounting of a ride that was interrupted, see utils/meterSession
+  const restoreTrip = (startedAt: number, distanceKm: number, nightDistanceKm: number) => {
+    tripStartRef.current = new Date(startedAt);
+    lastDistanceRef.current = distanceKm;
+    nightDistanceRef.current = nightDistanceKm;
   };
 
+  const getNightDistance = () => nightDistanceRef.current;
+
   const resetMeter = () => {
     setDistance(0);
     setFare(0);
     setIsNight(false);
-  };
-
-  const calculateFareForDistance = async (distanceKm: number, isNightActive: boolean): Promise<number> => {
-    const settings = await loadFareSettings();
-    return _calculateFareInternal(distanceKm, isNightActive, settings);
+    setNightFraction(0);
+    setWaitingMinutes(0);
+    tripStartRef.current = null;
+    lastDistanceRef.current = 0;
+    nightDistanceRef.current = 0;
+    lockedTariffRef.current = null;
+    setBreakdown(null);
   };
 
   return {
     distance,
     fare,
     isNight,
+    nightFraction,
+    waitingMinutes,
+    breakdown,
+    fareSettings,
     updateDistance,
     resetMeter,
-    calculateFareForDistance,
+    lockTariff,
+    restoreTrip,
+    getNightDistance,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { Tariff } from '@/utils/tariff';
+import { getFareSettings, loadFareSettings, subscribeToFareSettings } from '@/utils/fareSettings';
+
+// The saved tariff, re-rendering as soon as Settings saves a new one
+export function useFareSettings(): Tariff {
+  useEffect(() => {
+    loadFareSettings();
+  }, []);
+
+  return useSyncExternalStore(subscribeToFareSettings, getFareSettings);
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import {
+  GoogleMapsStatus,
+  describeGoogleMapsStatus,
+  getGoogleMapsStatus,
+  subscribeGoogleMapsStatus,
+} from '@/services/googleMaps';
+
+// Follows the shared Google Maps status, which only changes once something actually calls Google
+export function useGoogleMapsStatus() {
+  const [status, setStatus] = useState<GoogleMapsStatus>(getGoogleMapsStatus());
+
+  useEffect(() => {
+    setStatus(getGoogleMapsStatus());
+    return subscribeGoogleMapsStatus(setStatus);
+  }, []);
+
+  return {
+    status,
+    errorMessage: describeGoogleMapsStatus(status),
+  };
+}
@@ -1,167 +1,131 @@
 import { useState, useRef } from 'react';
-import * as Location from 'expo-location';
+import { TrackPoint } from '@/utils/tripHistory';
+import { FixStatus, GpsFilterOptions, createGpsFilter, haversineKm } from '@/utils/gpsFilter';
+import { LocationFix, LocationProvider, LocationWatch, getDefaultLocationProvider } from '@/services/location';
 
-export function useLocationTracking() {
-  const [currentLocation, setCurrentLocation] = useState<Location.LocationObject | null>(null);
+const toTrackPoint = (location: LocationFix, status: FixStatus): TrackPoint => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  timestamp: location.timestamp,
+  accuracy: location.coords.accuracy,
+  status,
+});
+
+// Where an interrupted ride got to, so tracking can carry on from there instead of from zero
+export interface TrackingResumePoint {
+  distanceKm: number;
+  track: TrackPoint[];
+  lastFix: TrackPoint | null;
+}
+
+interface LocationTrackingOptions {
+  provider?: LocationProvider; // Defaults to the browser or expo-location, whichever is available
+  filterOptions?: Partial<GpsFilterOptions>;
+  recordTrack?: boolean; // Keep every fix in `track` for history and GPX export, on by default
+  onTrackEnd?: () => void; // Called when a finite provider (a replay) runs out of fixes
+}
+
+export function useLocationTracking({
+  provider,
+  filterOptions,
+  recordTrack = true,
+  onTrackEnd,
+}: LocationTrackingOptions = {}) {
+  const [currentLocation, setCurrentLocation] = useState<LocationFix | null>(null);
   const [distanceTraveled, setDistanceTraveled] = useState(0);
   const [isTracking, setIsTracking] = useState(false);
+  const [currentSpeed, setCurrentSpeed] = useState<number | null>(null); // km/h
+  const [track, setTrack] = useState<TrackPoint[]>([]);
   
-  const lastLocationRef = useRef<Location.LocationObject | null>(null);
-  const watcherRef = useRef<Location.LocationSubscription | null>(null);
+  const lastLocationRef = useRef<LocationFix | null>(null);
+  const watcherRef = useRef<LocationWatch | null>(null);
+  const filterRef = useRef(createGpsFilter(filterOptions));
+  // The default provider is only created when tracking first starts, not on every render
+  const providerRef = useRef<LocationProvider | null>(provider ?? null);
+  providerRef.current = provider ?? providerRef.current;
+  const onTrackEndRef = useRef(onTrackEnd);
+  onTrackEndRef.current = onTrackEnd;
 
-  const calculateDistance = (
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number => {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  // Prefer the speed reported by the device, otherwise derive it from the last two fixes
+  const getSpeedKmh = (
+    previous: LocationFix | null,
+    next: LocationFix
+  ): number | null => {
+    if (next.coords.speed !== null && next.coords.speed >= 0) {
+      return next.coords.speed * 3.6;
+    }
+    if (!previous) return null;
+    const hours = (next.timestamp - previous.timestamp) / 3600000;
+    if (hours <= 0) return null;
+    return haversineKm(
+      previous.coords.latitude,
+      previous.coords.longitude,
+      next.coords.latitude,
+      next.coords.longitude
+    ) / hours;
   };
 
-  const startTracking = async () => {
-    try {
-      // Check if we're in web environment
-      const isWeb = typeof window !== 'undefined';
-      
-      if (isWeb && 'geolocation' in navigator) {
-        // Use browser geolocation for web/PWA
-        console.log('Starting web location tracking...');
-        
-        // Get initial location with iOS PWA-friendly settings
-        const initialPosition = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(resolve, reject, {
-            enableHighAccuracy: false,
-            timeout: 15000,
-            maximumAge: 60000 // Allow cached position for iOS PWA
-          });
-        });
+  // Runs every fix through the noise filter and adds whatever distance it lets through
+  const recordFix = (location: LocationFix) => {
+    const result = filterRef.current.process({
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy,
+      timestamp: location.timestamp,
+    });
+
+    setCurrentLocation(location);
+    setCurrentSpeed(getSpeedKmh(lastLocationRef.current, location));
+    if (recordTrack) {
+      setTrack(prev => [...prev, toTrackPoint(location, result.status)]);
+    }
+    if (result.distanceKm > 0) {
+      setDistanceTraveled(prev => prev + result.distanceKm);
+    }
+    lastLocationRef.current = location;
+  };
 
-        const initialLocation = {
-          coords: {
-            latitude: initialPosition.coords.latitude,
-            longitude: initialPosition.coords.longitude,
-            altitude: initialPosition.coords.altitude,
-            accuracy: initialPosition.coords.accuracy,
-            altitudeAccuracy: initialPosition.coords.altitudeAccuracy,
-            heading: initialPosition.coords.heading,
-            speed: initialPosition.coords.speed,
-          },
-          timestamp: initialPosition.timestamp,
-        };
-        
-        setCurrentLocation(initialLocation);
-        lastLocationRef.current = initialLocation;
-        setIsTracking(true);
-        setDistanceTraveled(0);
-        
-        // Start watching location for web
-        const watchId = navigator.geolocation.watchPosition(
-          (position) => {
-            const newLocationObject = {
-              coords: {
-                latitude: position.coords.latitude,
-                longitude: position.coords.longitude,
-                altitude: position.coords.altitude,
-                accuracy: position.coords.accuracy,
-                altitudeAccuracy: position.coords.altitudeAccuracy,
-                heading: position.coords.heading,
-                speed: position.coords.speed,
-              },
-              timestamp: position.timestamp,
-            };
-            
-            console.log('New location received:', newLocationObject.coords.latitude, newLocationObject.coords.longitude);
-            setCurrentLocation(newLocationObject);
-            
-            if (lastLocationRef.current) {
-              const distance = calculateDistance(
-                lastLocationRef.current.coords.latitude,
-                lastLocationRef.current.coords.longitude,
-                newLocationObject.coords.latitude,
-                newLocationObject.coords.longitude
-              );
-              
-              console.log('Calculated distance:', distance);
-              
-              // Only add distance if it's significant and reasonable  
-              if (distance > 0.001 && distance < 1) {
-                setDistanceTraveled(prev => {
-                  const newTotal = prev + distance;
-                  console.log('Distance updated:', prev, '+', distance, '=', newTotal);
-                  return newTotal;
-                });
-              }
-            }
-            
-            lastLocationRef.current = newLocationObject;
-          },
-          (error) => {
-            console.error('Web location tracking error:', error);
-            setIsTracking(false);
-          },
-          {
-            enableHighAccuracy: false,
-            timeout: 15000,
-            maximumAge: 60000 // iOS PWA-friendly settings
-          }
-        );
-        
-        // Store watchId for later cleanup
-        watcherRef.current = { remove: () => navigator.geolocation.clearWatch(watchId) };
-        
-      } else {
-        // Use Expo Location for native
-        const { status } = await Location.requestForegroundPermissionsAsync();
-        if (status !== 'granted') {
-          throw new Error('Location permission not granted');
-        }
+  // Shows where an interrupted ride got to without tracking, e.g. when it was paused
+  const restoreTracking = (resumeFrom: TrackingResumePoint) => {
+    setTrack(resumeFrom.track);
+    setDistanceTraveled(resumeFrom.distanceKm);
+  };
 
-        // Get initial location
-        const initialLocation = await Location.getCurrentPositionAsync({
-          accuracy: Location.Accuracy.High,
-        });
-        
-        setCurrentLocation(initialLocation);
-        lastLocationRef.current = initialLocation;
-        setIsTracking(true);
-        setDistanceTraveled(0);
+  const beginTrip = (initialLocation: LocationFix, resumeFrom?: TrackingResumePoint) => {
+    filterRef.current.reset();
+    lastLocationRef.current = null;
+    setTrack(resumeFrom?.track ?? []);
+    setDistanceTraveled(resumeFrom?.distanceKm ?? 0);
+    // Start the filter from the last fix before the interruption so the distance covered meanwhile counts
+    if (resumeFrom?.lastFix) {
+      filterRef.current.process(resumeFrom.lastFix);
+    }
+    recordFix(initialLocation);
+    setIsTracking(true);
+  };
 
-        // Start watching location
-        watcherRef.current = await Location.watchPositionAsync(
-          {
-            accuracy: Location.Accuracy.High,
-            timeInterval: 5000, // Update every 5 seconds
-            distanceInterval: 10, // Update every 10 meters
-          },
-          (location) => {
-            setCurrentLocation(location);
-            
-            if (lastLocationRef.current) {
-              const distance = calculateDistance(
-                lastLocationRef.current.coords.latitude,
-                lastLocationRef.current.coords.longitude,
-                location.coords.latitude,
-                location.coords.longitude
-              );
-              
-              // Only add distance if it's significant and reasonable (less than 1km per update)
-              if (distance > 0.01 && distance < 1) {
-                setDistanceTraveled(prev => prev + distance);
-              }
-            }
-            
-            lastLocationRef.current = location;
-          }
-        );
+  // Pass a provider to run a single trip from it, e.g. a replayed track, without replacing the default
+  const startTracking = async (overrideProvider?: LocationProvider, resumeFrom?: TrackingResumePoint) => {
+    try {
+      const locationProvider = overrideProvider ?? (providerRef.current ??= getDefaultLocationProvider());
+      const granted = await locationProvider.requestPermission();
+      if (!granted) {
+        throw new Error('Location permission not granted');
       }
+
+      const initialLocation = await locationProvider.getCurrentPosition();
+      beginTrip(initialLocation, resumeFrom);
+
+      watcherRef.current = await locationProvider.watchPosition(
+        (location) => {
+          recordFix(location);
+        },
+        (error) => {
+          console.error('Location tracking error:', error);
+          setIsTracking(false);
+        },
+        () => onTrackEndRef.current?.()
+      );
     } catch (error) {
       console.error('Error starting location tracking:', error);
       setIsTracking(false);
@@ -180,15 +144,21 @@ export function useLocationTracking() {
   const resetTracking = () => {
     setDistanceTraveled(0);
     setCurrentLocation(null);
+    setCurrentSpeed(null);
+    setTrack([]);
     lastLocationRef.current = null;
+    filterRef.current.reset();
   };
 
   return {
     currentLocation,
+    currentSpeed,
     distanceTraveled,
+    track,
     isTracking,
     startTracking,
     stopTracking,
+    restoreTracking,
     resetTracking,
   };
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { useState, useRef, useCallback } from 'react';
+import { useFocusEffect } from 'expo-router';
+import {
+  Coordinates,
+  PlaceSearchProvider,
+  PlaceSuggestion,
+  DEFAULT_PLACE_SEARCH_SETTINGS,
+  createPlaceSearchProvider,
+  loadPlaceSearchSettings,
+} from '@/services/places';
+import { getGoogleMapsConfig } from '@/services/googleMaps';
+
+export function usePlaceSearch() {
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const providerRef = useRef<PlaceSearchProvider>(
+    createPlaceSearchProvider(DEFAULT_PLACE_SEARCH_SETTINGS, getGoogleMapsConfig())
+  );
+  const latestQueryRef = useRef('');
+
+  // Pick up a provider change made in Settings when the screen comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      loadPlaceSearchSettings().then(settings => {
+        providerRef.current = createPlaceSearchProvider(settings, getGoogleMapsConfig());
+      });
+    }, [])
+  );
+
+  const searchPlaces = async (query: string): Promise<PlaceSuggestion[]> => {
+    latestQueryRef.current = query;
+    if (!query.trim()) {
+      setSuggestions([]);
+      return [];
+    }
+
+    setIsLoading(true);
+    try {
+      const results = await providerRef.current.search(query);
+      // Typing fires overlapping searches, only the newest one may update the list
+      if (latestQueryRef.current === query) {
+        setSuggestions(results);
+      }
+      return results;
+    } catch (error) {
+      console.error('Error fetching place suggestions:', error);
+      if (latestQueryRef.current === query) {
+        setSuggestions([]);
+      }
+      return [];
+    } finally {
+      if (latestQueryRef.current === query) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const getPlaceCoordinates = async (place: PlaceSuggestion): Promise<Coordinates | null> => {
+    try {
+      return await providerRef.current.getCoordinates(place);
+    } catch (error) {
+      console.error('Error fetching place coordinates:', error);
+      return null;
+    }
+  };
+
+  const geocodeAddress = async (address: string): Promise<Coordinates | null> => {
+    try {
+      return await providerRef.current.geocode(address);
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      return null;
+    }
+  };
+
+  // Turns a GPS fix or dropped pin into something the field can show, falling back to the raw coordinates
+  const describeCoordinates = async (coordinates: Coordinates): Promise<PlaceSuggestion> => {
+    let address: string | null = null;
+    try {
+      address = await providerRef.current.reverseGeocode(coordinates);
+    } catch (error) {
+      console.error('Error reverse geocoding position:', error);
+    }
+    const fallback = `${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}`;
+    const [first, ...rest] = (address ?? fallback).split(', ');
+    return {
+      place_id: `coordinates/${fallback}`,
+      description: address ?? fallback,
+      structured_formatting: { main_text: first, secondary_text: rest.join(', ') },
+      coordinates,
+    };
+  };
+
+  const clearSuggestions = () => {
+    latestQueryRef.current = '';
+    setSuggestions([]);
+    setIsLoading(false);
+  };
+
+  return {
+    suggestions,
+    isLoading,
+    searchPlaces,
+    getPlaceCoordinates,
+    geocodeAddress,
+    describeCoordinates,
+    clearSuggestions,
+  };
+}
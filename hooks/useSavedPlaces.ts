@@ -0,0 +1,68 @@
+import { useState, useCallback } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { PlaceSuggestion } from '@/services/places';
+import {
+  RecentPlace,
+  SavedPlace,
+  addRecentPlace,
+  deleteSavedPlace,
+  loadRecentPlaces,
+  loadSavedPlaces,
+  savePlace,
+} from '@/utils/savedPlaces';
+
+export function useSavedPlaces() {
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [recentPlaces, setRecentPlaces] = useState<RecentPlace[]>([]);
+
+  const refresh = useCallback(async () => {
+    const [saved, recent] = await Promise.all([loadSavedPlaces(), loadRecentPlaces()]);
+    setSavedPlaces(saved);
+    setRecentPlaces(recent);
+  }, []);
+
+  // Other fields and the Settings tab change these too, so reload whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const rememberPlace = async (place: PlaceSuggestion) => {
+    try {
+      setRecentPlaces(await addRecentPlace(place));
+    } catch (error) {
+      console.error('Error saving recent place:', error);
+    }
+  };
+
+  const upsertPlace = async (place: Omit<SavedPlace, 'id' | 'createdAt'> & { id?: string }) => {
+    try {
+      setSavedPlaces(await savePlace(place));
+    } catch (error) {
+      console.error('Error saving place:', error);
+      throw error;
+    }
+  };
+
+  const removePlace = async (id: string) => {
+    try {
+      setSavedPlaces(await deleteSavedPlace(id));
+    } catch (error) {
+      console.error('Error deleting place:', error);
+      throw error;
+    }
+  };
+
+  const togglePinned = (place: SavedPlace) => upsertPlace({ ...place, pinned: !place.pinned });
+
+  return {
+    savedPlaces,
+    recentPlaces,
+    refresh,
+    rememberPlace,
+    upsertPlace,
+    removePlace,
+    togglePinned,
+  };
+}
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { SavedTrip, loadTrips, deleteTrip } from '@/utils/tripHistory';
+
+export function useTripHistory() {
+  const [trips, setTrips] = useState<SavedTrip[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const saved = await loadTrips();
+    setTrips(saved);
+    setIsLoading(false);
+  }, []);
+
+  // Reload whenever the screen comes back into view so trips saved from other tabs show up
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const removeTrip = async (id: string) => {
+    try {
+      setTrips(await deleteTrip(id));
+    } catch (error) {
+      console.error('Error deleting trip:', error);
+      throw error;
+    }
+  };
+
+  return {
+    trips,
+    isLoading,
+    refresh,
+    removeTrip,
+  };
+}
@@ -0,0 +1,33 @@
+// Runs every __tests__/*.test.ts with node:test. TypeScript is transpiled on the fly and the
+// "@/" alias resolved like tsconfig.json does, so the pure utils can be tested without a bundler.
+// Tests must not import anything that needs React Native.
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+const skippedDirectories = new Set(['node_modules', '.git', '.expo', 'dist']);
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const aliased = request.startsWith('@/') ? path.join(root, request.slice(2)) : request;
+  return resolveFilename.call(this, aliased, ...rest);
+};
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const findTests = (directory) =>
+  fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return skippedDirectories.has(entry.name) ? [] : findTests(fullPath);
+    return path.basename(directory) === '__tests__' && entry.name.endsWith('.test.ts') ? [fullPath] : [];
+  });
+
+findTests(root).forEach((file) => require(file));
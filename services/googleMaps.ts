@@ -0,0 +1,143 @@
+import Constants from 'expo-constants';
+
+// Google Maps settings for this deployment. The key only comes from EXPO_PUBLIC_GOOGLE_MAPS_API_KEY,
+// so each fork builds with its own restricted key. The other EXPO_PUBLIC_* variables win over
+// app.json extra.googleMaps.
+export interface GoogleMapsConfig {
+  apiKey: string;
+  libraries: string[]; // Maps JS API libraries, places is always included
+  region: string; // ISO 3166-1 alpha-2, biases results towards this country
+}
+
+export type GoogleMapsStatus = 'idle' | 'loading' | 'ready' | 'missing-key' | 'invalid-key' | 'failed';
+
+// Declare global google object
+declare global {
+  interface Window {
+    google: any;
+    gm_authFailure?: () => void;
+  }
+}
+
+const splitList = (value: unknown): string[] | null => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!items) return null;
+  const cleaned = items.map(item => String(item).trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : null;
+};
+
+export const getGoogleMapsConfig = (): GoogleMapsConfig => {
+  const extra = Constants.expoConfig?.extra?.googleMaps ?? {};
+  const apiKey = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY ?? '';
+  const libraries = splitList(process.env.EXPO_PUBLIC_GOOGLE_MAPS_LIBRARIES) ?? splitList(extra.libraries) ?? [];
+  const region = process.env.EXPO_PUBLIC_GOOGLE_MAPS_REGION || extra.region || 'IN';
+
+  return {
+    apiKey: String(apiKey).trim(),
+    libraries: [...new Set(['places', ...libraries])],
+    region: String(region).trim().toUpperCase(),
+  };
+};
+
+let status: GoogleMapsStatus = 'idle';
+const listeners = new Set<(status: GoogleMapsStatus) => void>();
+
+const setStatus = (next: GoogleMapsStatus) => {
+  if (status === next) return;
+  status = next;
+  listeners.forEach(listener => listener(next));
+};
+
+export const getGoogleMapsStatus = () => status;
+
+export const subscribeGoogleMapsStatus = (listener: (status: GoogleMapsStatus) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// A message for the error states, null while Google Maps is usable
+export const describeGoogleMapsStatus = (value: GoogleMapsStatus): string | null => {
+  switch (value) {
+    case 'missing-key':
+      return 'No Google Maps API key is configured for this build. Set EXPO_PUBLIC_GOOGLE_MAPS_API_KEY when building, or switch place search and routing to OpenStreetMap in Settings.';
+    case 'invalid-key':
+      return 'Google rejected the Maps API key. Check that it is valid, that the Places and Distance Matrix APIs are enabled, and that its restrictions allow this app.';
+    case 'failed':
+      return 'Google Maps could not be loaded. Check your internet connection and try again.';
+    default:
+      return null;
+  }
+};
+
+const statusError = (value: GoogleMapsStatus) => {
+  setStatus(value);
+  return new Error(describeGoogleMapsStatus(value) ?? 'Google Maps is unavailable');
+};
+
+export const requireGoogleMapsKey = (config: GoogleMapsConfig) => {
+  if (!config.apiKey) {
+    throw statusError('missing-key');
+  }
+};
+
+// Google answers REQUEST_DENIED for bad, restricted or unbilled keys, from both the JS and REST APIs.
+// Returns the error to reject with, or null for any other status.
+export const checkGoogleDenied = (responseStatus: unknown, errorMessage?: string): Error | null => {
+  if (responseStatus !== 'REQUEST_DENIED') {
+    setStatus('ready');
+    return null;
+  }
+  const error = statusError('invalid-key');
+  if (errorMessage) error.message = `${error.message}\n\n${errorMessage}`;
+  return error;
+};
+
+let loading: Promise<void> | null = null;
+
+export const isBrowser = () => typeof window !== 'undefined' && typeof document !== 'undefined';
+
+// Loads the Maps JS API once and shares the promise between callers
+export const loadGoogleMaps = (config: GoogleMapsConfig = getGoogleMapsConfig()): Promise<void> => {
+  if (!isBrowser()) {
+    return Promise.reject(new Error('The Google Maps JavaScript API is only available in the browser'));
+  }
+  try {
+    requireGoogleMapsKey(config);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  if (window.google?.maps?.places) {
+    return Promise.resolve();
+  }
+
+  if (!loading) {
+    setStatus('loading');
+    // Called by the Maps JS API when the key is rejected, the script itself still loads
+    window.gm_authFailure = () => setStatus('invalid-key');
+
+    loading = new Promise((resolve, reject) => {
+      const params = new URLSearchParams({
+        key: config.apiKey,
+        libraries: config.libraries.join(','),
+        region: config.region,
+      });
+      const script = document.createElement('script');
+      script.src = `https://maps.googleapis.com/maps/api/js?${params}`;
+      script.async = true;
+      script.defer = true;
+      script.onload = () => {
+        if (status === 'loading') setStatus('ready');
+        resolve();
+      };
+      script.onerror = () => {
+        loading = null; // Allow a retry, e.g. after coming back online
+        script.remove();
+        reject(statusError('failed'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return loading;
+};
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDemoTrack, createReplayLocationProvider } from '@/services/location/replayLocationProvider';
+import { LocationFix } from '@/services/location/types';
+
+const SPEED_FACTOR = 10;
+
+type TestContext = Parameters<NonNullable<Parameters<typeof test>[0]>>[0];
+
+// Mock timers only fire what was due when tick() was called, and each replayed fix schedules the
+// next one, so time is moved on in small steps
+const advance = (t: TestContext, ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+    t.mock.timers.tick(Math.min(100, ms - elapsed));
+  }
+};
+
+const replayDemo = async (t: TestContext) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const fixes = createDemoTrack();
+  const provider = createReplayLocationProvider(fixes, { speedFactor: SPEED_FACTOR });
+  const received: LocationFix[] = [await provider.getCurrentPosition()];
+  let ended = 0;
+  const subscription = await provider.watchPosition(
+    fix => received.push(fix),
+    error => assert.fail(error),
+    () => { ended += 1; }
+  );
+  return { fixes, received, subscription, getEnded: () => ended };
+};
+
+test('plays the demo track at the speed factor and then ends', async (t) => {
+  const { fixes, received, getEnded } = await replayDemo(t);
+  const durationMs = fixes[fixes.length - 1].timestamp - fixes[0].timestamp;
+
+  advance(t, durationMs / SPEED_FACTOR - 1);
+  assert.equal(received.length, fixes.length - 1);
+  assert.equal(getEnded(), 0);
+
+  advance(t, 1);
+  assert.equal(received.length, fixes.length);
+  assert.equal(getEnded(), 1);
+});
+
+// The filter judges speed from the timestamps, so they must not be sped up with the playback
+test('keeps the recorded spacing between fixes', async (t) => {
+  const { fixes, received } = await replayDemo(t);
+  advance(t, fixes[fixes.length - 1].timestamp - fixes[0].timestamp);
+
+  assert.equal(received.length, fixes.length);
+  received.forEach((fix, index) => {
+    assert.equal(fix.timestamp - received[0].timestamp, fixes[index].timestamp - fixes[0].timestamp);
+    assert.equal(fix.coords.latitude, fixes[index].latitude);
+  });
+});
+
+test('stops without ending when removed', async (t) => {
+  const { fixes, received, subscription, getEnded } = await replayDemo(t);
+  advance(t, 60000 / SPEED_FACTOR);
+  const countWhenRemoved = received.length;
+  subscription.remove();
+
+  advance(t, fixes[fixes.length - 1].timestamp - fixes[0].timestamp);
+  assert.equal(received.length, countWhenRemoved);
+  assert.equal(getEnded(), 0);
+});
@@ -0,0 +1,146 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { LocationFix, LocationProvider, WATCH_DISTANCE_METERS, WATCH_INTERVAL_MS } from '@/services/location/types';
+import { expoLocationProvider } from '@/services/location/expoLocationProvider';
+import { advanceMeterSession, loadMeterSession, meterSessionFare, saveMeterSession } from '@/utils/meterSession';
+
+export const BACKGROUND_LOCATION_TASK = 'aye-auto-background-location';
+
+interface TaskListener {
+  onFix: (fix: LocationFix) => void;
+  onError: (error: Error) => void;
+}
+
+// Screens currently fed by the task. Empty when the app was closed and Android restarted the
+// bundle just to run the task.
+const listeners = new Set<TaskListener>();
+let backgroundGranted = false;
+let notificationBody = '';
+let notificationUpdatedAt = 0;
+
+// Changing the notification restarts the location updates, so it's kept coarse and refreshed
+// at most this often
+const NOTIFICATION_REFRESH_MS = 15000;
+
+const describeFare = (fare: number, distanceKm: number) =>
+  `₹${Math.round(fare)} · ${distanceKm.toFixed(1)} km`;
+
+// Calling this again while updates run replaces the options, which is how the notification is updated
+const startLocationUpdates = (body: string) => {
+  notificationBody = body;
+  notificationUpdatedAt = Date.now();
+  return Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy: Location.Accuracy.High,
+    timeInterval: WATCH_INTERVAL_MS,
+    distanceInterval: WATCH_DISTANCE_METERS,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'Aye Auto meter is running',
+      notificationBody: body,
+      notificationColor: '#FF6B35',
+      killServiceOnDestroy: false, // Keep metering if the app is swiped away
+    },
+  });
+};
+
+const stopLocationUpdates = async () => {
+  if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK)) {
+    await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+  }
+};
+
+const showFare = async (fare: number, distanceKm: number) => {
+  const body = describeFare(fare, distanceKm);
+  if (body === notificationBody || Date.now() - notificationUpdatedAt < NOTIFICATION_REFRESH_MS) return;
+  await startLocationUpdates(body);
+};
+
+// Must be defined when the bundle loads, see the import in app/_layout.tsx
+TaskManager.defineTask<{ locations: LocationFix[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background location error:', error.message);
+    listeners.forEach(listener => listener.onError(new Error(error.message)));
+    return;
+  }
+  const locations = data?.locations ?? [];
+
+  // The meter screen is alive and does its own filtering, waiting and saving
+  if (listeners.size > 0) {
+    locations.forEach(fix => listeners.forEach(listener => listener.onFix(fix)));
+    return;
+  }
+
+  // Nobody is watching, so add the distance to the saved session ourselves.
+  // No session means the ride was stopped or discarded and the updates were left behind.
+  try {
+    const session = await loadMeterSession();
+    if (!session) {
+      await stopLocationUpdates();
+      return;
+    }
+    const updated = advanceMeterSession(session, locations.map(fix => ({
+      latitude: fix.coords.latitude,
+      longitude: fix.coords.longitude,
+      accuracy: fix.coords.accuracy,
+      timestamp: fix.timestamp,
+    })));
+    await saveMeterSession(updated);
+    const { fare, distanceKm } = meterSessionFare(updated);
+    await showFare(fare, distanceKm);
+  } catch (taskError) {
+    console.error('Error updating meter session in the background:', taskError);
+  }
+});
+
+// Keeps the notification's fare in step with the meter screen while it is the one counting
+export const updateMeterNotification = async (fare: number, distanceKm: number) => {
+  if (listeners.size === 0) return;
+  try {
+    await showFare(fare, distanceKm);
+  } catch (error) {
+    console.error('Error updating meter notification:', error);
+  }
+};
+
+// expo-location with a background task for native builds, so the meter keeps counting with the
+// screen off or another app open. Android shows a notification with the live fare meanwhile.
+// Falls back to foreground-only tracking when "Allow all the time" isn't granted.
+export const backgroundLocationProvider: LocationProvider = {
+  name: 'expo-location (background)',
+
+  requestPermission: async () => {
+    if (!(await expoLocationProvider.requestPermission())) return false;
+    const { status } = await Location.requestBackgroundPermissionsAsync();
+    backgroundGranted = status === 'granted';
+    return true;
+  },
+
+  getCurrentPosition: expoLocationProvider.getCurrentPosition,
+
+  watchPosition: async (onFix, onError, onEnd) => {
+    if (!backgroundGranted) {
+      return expoLocationProvider.watchPosition(onFix, onError, onEnd);
+    }
+
+    const listener = { onFix, onError };
+    listeners.add(listener);
+    try {
+      // Still running when resuming a ride the task kept metering after the app was closed
+      if (!(await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK))) {
+        await startLocationUpdates(describeFare(0, 0));
+      }
+    } catch (error) {
+      listeners.delete(listener);
+      throw error;
+    }
+
+    return {
+      remove: () => {
+        listeners.delete(listener);
+        stopLocationUpdates().catch(error => console.error('Error stopping background location:', error));
+      },
+    };
+  },
+};
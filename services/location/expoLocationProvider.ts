@@ -0,0 +1,27 @@
+import * as Location from 'expo-location';
+import { LocationProvider, WATCH_DISTANCE_METERS, WATCH_INTERVAL_MS } from '@/services/location/types';
+
+// expo-location for native builds
+export const expoLocationProvider: LocationProvider = {
+  name: 'expo-location',
+
+  requestPermission: async () => {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    return status === 'granted';
+  },
+
+  getCurrentPosition: () =>
+    Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.High,
+    }),
+
+  watchPosition: (onFix) =>
+    Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: WATCH_INTERVAL_MS,
+        distanceInterval: WATCH_DISTANCE_METERS,
+      },
+      onFix
+    ),
+};
@@ -0,0 +1,35 @@
+import { LocationProvider } from '@/services/location/types';
+import { webLocationProvider } from '@/services/location/webLocationProvider';
+import { expoLocationProvider } from '@/services/location/expoLocationProvider';
+import { backgroundLocationProvider, updateMeterNotification } from '@/services/location/backgroundLocationProvider';
+import { createReplayLocationProvider, createDemoTrack } from '@/services/location/replayLocationProvider';
+
+export * from '@/services/location/types';
+export {
+  webLocationProvider,
+  expoLocationProvider,
+  backgroundLocationProvider,
+  updateMeterNotification,
+  createReplayLocationProvider,
+  createDemoTrack,
+};
+
+const hasWebGeolocation = () =>
+  typeof window !== 'undefined' && typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+// EXPO_PUBLIC_LOCATION_PROVIDER=demo drives the meter from a recorded track instead of the device
+export const getDefaultLocationProvider = (): LocationProvider => {
+  if (process.env.EXPO_PUBLIC_LOCATION_PROVIDER === 'demo') {
+    return createReplayLocationProvider(createDemoTrack(), { speedFactor: 5, name: 'demo' });
+  }
+  return hasWebGeolocation() ? webLocationProvider : backgroundLocationProvider;
+};
+
+// For one-off lookups such as "use my location", which only need foreground permission. The
+// background provider would ask for location "all the time".
+export const getCurrentLocationProvider = (): LocationProvider => {
+  if (process.env.EXPO_PUBLIC_LOCATION_PROVIDER === 'demo') {
+    return getDefaultLocationProvider();
+  }
+  return hasWebGeolocation() ? webLocationProvider : expoLocationProvider;
+};
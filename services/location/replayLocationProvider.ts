@@ -0,0 +1,111 @@
+import { GpsFix } from '@/utils/gpsFilter';
+import { LocationFix, LocationProvider } from '@/services/location/types';
+
+export interface ReplayOptions {
+  speedFactor?: number; // 10 = replay ten times faster than recorded
+  name?: string;
+}
+
+const toLocationFix = (fix: GpsFix, timestamp: number, speed: number | null): LocationFix => ({
+  coords: {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    altitude: null,
+    accuracy: fix.accuracy,
+    altitudeAccuracy: null,
+    heading: null,
+    speed,
+  },
+  timestamp,
+});
+
+// Feeds recorded fixes back through the meter. Timestamps are shifted to start now
+// but keep their original spacing, so the noise filter sees the real speeds.
+export function createReplayLocationProvider(fixes: GpsFix[], options: ReplayOptions = {}): LocationProvider {
+  const speedFactor = options.speedFactor && options.speedFactor > 0 ? options.speedFactor : 1;
+  const startedAt = fixes[0]?.timestamp ?? 0;
+  let replayStart = Date.now();
+
+  const rebase = (fix: GpsFix) => toLocationFix(fix, replayStart + (fix.timestamp - startedAt), null);
+
+  return {
+    name: options.name ?? 'replay',
+    timeScale: speedFactor,
+
+    requestPermission: async () => true,
+
+    getCurrentPosition: async () => {
+      if (fixes.length === 0) {
+        throw new Error('Replay track is empty');
+      }
+      replayStart = Date.now();
+      return rebase(fixes[0]);
+    },
+
+    watchPosition: async (onFix, onError, onEnd) => {
+      let index = 1;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const scheduleNext = () => {
+        if (index >= fixes.length) {
+          onEnd?.();
+          return;
+        }
+        const delay = (fixes[index].timestamp - fixes[index - 1].timestamp) / speedFactor;
+        timer = setTimeout(() => {
+          onFix(rebase(fixes[index]));
+          index += 1;
+          scheduleNext();
+        }, Math.max(0, delay));
+      };
+      scheduleNext();
+
+      return {
+        remove: () => {
+          if (timer) clearTimeout(timer);
+          index = fixes.length;
+        },
+      };
+    },
+  };
+}
+
+// A short drive along MG Road, Kochi with a two minute stop at a signal, for demos
+export const createDemoTrack = (): GpsFix[] => {
+  const waypoints = [
+    { latitude: 9.9816, longitude: 76.2756 },
+    { latitude: 9.9740, longitude: 76.2825 },
+    { latitude: 9.9662, longitude: 76.2871 },
+    { latitude: 9.9588, longitude: 76.2905 },
+  ];
+  const speedKmh = 20;
+  const intervalMs = 5000;
+  const stopAfterWaypoint = 1;
+  const stopMs = 120000;
+
+  const fixes: GpsFix[] = [];
+  let timestamp = 0;
+  waypoints.slice(1).forEach((to, i) => {
+    const from = waypoints[i];
+    const km = Math.hypot((to.latitude - from.latitude) * 111, (to.longitude - from.longitude) * 109.6);
+    const steps = Math.max(1, Math.round((km / speedKmh) * 3600000 / intervalMs));
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      fixes.push({
+        latitude: from.latitude + (to.latitude - from.latitude) * t,
+        longitude: from.longitude + (to.longitude - from.longitude) * t,
+        accuracy: 10,
+        timestamp,
+      });
+      timestamp += intervalMs;
+    }
+    if (i === stopAfterWaypoint - 1) {
+      for (let waited = 0; waited < stopMs; waited += intervalMs) {
+        fixes.push({ ...to, accuracy: 15, timestamp });
+        timestamp += intervalMs;
+      }
+    }
+  });
+  fixes.push({ ...waypoints[waypoints.length - 1], accuracy: 10, timestamp });
+  return fixes;
+};
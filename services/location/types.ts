@@ -0,0 +1,26 @@
+import * as Location from 'expo-location';
+
+export type LocationFix = Location.LocationObject;
+
+export interface LocationWatch {
+  remove: () => void;
+}
+
+// A source of position fixes. The meter only talks to this interface, so the browser,
+// expo-location and recorded tracks all go through the same filtering pipeline.
+export interface LocationProvider {
+  name: string;
+  timeScale?: number; // Recorded seconds played per real second, 1 (or unset) for live providers
+  requestPermission: () => Promise<boolean>;
+  getCurrentPosition: () => Promise<LocationFix>;
+  watchPosition: (
+    onFix: (fix: LocationFix) => void,
+    onError: (error: Error) => void,
+    onEnd?: () => void // Only finite sources such as replays ever call this, after their last fix
+  ) => Promise<LocationWatch>;
+}
+
+// Shared by every provider so web and native sample at the same rate
+export const WATCH_INTERVAL_MS = 5000;
+export const WATCH_DISTANCE_METERS = 10;
+export const POSITION_TIMEOUT_MS = 15000;
@@ -0,0 +1,56 @@
+import { LocationFix, LocationProvider, POSITION_TIMEOUT_MS, WATCH_INTERVAL_MS } from '@/services/location/types';
+
+const toLocationFix = (position: GeolocationPosition): LocationFix => ({
+  coords: {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    altitude: position.coords.altitude,
+    accuracy: position.coords.accuracy,
+    altitudeAccuracy: position.coords.altitudeAccuracy,
+    heading: position.coords.heading,
+    speed: position.coords.speed,
+  },
+  timestamp: position.timestamp,
+});
+
+const getPosition = (options: PositionOptions) =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(resolve, reject, options);
+  });
+
+// Browser geolocation for web/PWA
+export const webLocationProvider: LocationProvider = {
+  name: 'browser',
+
+  requestPermission: async () => {
+    // Asking for a position is the only way to trigger the prompt on iOS PWAs
+    try {
+      await getPosition({ enableHighAccuracy: true, timeout: 10000, maximumAge: 0 });
+      return true;
+    } catch {
+      return false; // Denied, the caller explains how to allow it
+    }
+  },
+
+  getCurrentPosition: async () => {
+    const position = await getPosition({
+      enableHighAccuracy: true,
+      timeout: POSITION_TIMEOUT_MS,
+      maximumAge: 60000, // Allow cached position for iOS PWA
+    });
+    return toLocationFix(position);
+  },
+
+  watchPosition: async (onFix, onError) => {
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => onFix(toLocationFix(position)),
+      (error) => onError(new Error(error.message)),
+      {
+        enableHighAccuracy: true,
+        timeout: POSITION_TIMEOUT_MS,
+        maximumAge: WATCH_INTERVAL_MS,
+      }
+    );
+    return { remove: () => navigator.geolocation.clearWatch(watchId) };
+  },
+};
@@ -0,0 +1,171 @@
+import {
+  Coordinates,
+  DEFAULT_PLACE_SEARCH_OPTIONS,
+  PlaceSearchOptions,
+  PlaceSearchProvider,
+  PlaceSuggestion,
+} from '@/services/places/types';
+import {
+  GoogleMapsConfig,
+  checkGoogleDenied,
+  isBrowser,
+  loadGoogleMaps,
+  requireGoogleMapsKey,
+} from '@/services/googleMaps';
+
+const PLACE_TYPES = ['establishment', 'geocode'];
+const REST_BASE_URL = 'https://maps.googleapis.com/maps/api';
+
+const toSuggestion = (prediction: any): PlaceSuggestion => ({
+  place_id: prediction.place_id,
+  description: prediction.description,
+  structured_formatting: {
+    main_text: prediction.structured_formatting.main_text,
+    secondary_text: prediction.structured_formatting.secondary_text || '',
+  },
+});
+
+const fetchJson = async (config: GoogleMapsConfig, path: string, params: Record<string, string>) => {
+  requireGoogleMapsKey(config);
+  const query = new URLSearchParams({ ...params, region: config.region.toLowerCase(), key: config.apiKey });
+  const response = await fetch(`${REST_BASE_URL}/${path}?${query}`);
+  const data = await response.json();
+  const denied = checkGoogleDenied(data.status, data.error_message);
+  if (denied) throw denied;
+  if (!response.ok || (data.status !== 'OK' && data.status !== 'ZERO_RESULTS')) {
+    throw new Error(data.error_message ?? `Google ${path} failed (${data.status ?? response.status})`);
+  }
+  return data;
+};
+
+// The browser uses the Maps JS API, because the REST endpoints don't allow CORS.
+// Native has no script loader, so it calls the REST endpoints directly.
+export function createGooglePlaceSearchProvider(
+  config: GoogleMapsConfig,
+  overrides: Partial<PlaceSearchOptions> = {}
+): PlaceSearchProvider {
+  const options = { ...DEFAULT_PLACE_SEARCH_OPTIONS, ...overrides };
+  // The JS API accepts up to five countries, the REST API takes them pipe separated
+  const countries = options.countryCodes.slice(0, 5);
+
+  const search = async (query: string): Promise<PlaceSuggestion[]> => {
+    if (!isBrowser()) {
+      const data = await fetchJson(config, 'place/autocomplete/json', {
+        input: query,
+        types: PLACE_TYPES.join('|'),
+        ...(countries.length > 0 && { components: countries.map(code => `country:${code}`).join('|') }),
+      });
+      return (data.predictions ?? []).slice(0, options.limit).map(toSuggestion);
+    }
+
+    await loadGoogleMaps(config);
+    return new Promise((resolve, reject) => {
+      const service = new window.google.maps.places.AutocompleteService();
+      service.getPlacePredictions(
+        {
+          input: query,
+          ...(countries.length > 0 && { componentRestrictions: { country: countries } }),
+          types: PLACE_TYPES,
+        },
+        (predictions: any, status: any) => {
+          const denied = checkGoogleDenied(status);
+          if (denied) {
+            reject(denied);
+          } else if (status === window.google.maps.places.PlacesServiceStatus.OK && predictions) {
+            resolve(predictions.slice(0, options.limit).map(toSuggestion));
+          } else {
+            resolve([]);
+          }
+        }
+      );
+    });
+  };
+
+  const getCoordinates = async (place: PlaceSuggestion): Promise<Coordinates | null> => {
+    if (place.coordinates) return place.coordinates;
+
+    if (!isBrowser()) {
+      const data = await fetchJson(config, 'place/details/json', { place_id: place.place_id, fields: 'geometry' });
+      const location = data.result?.geometry?.location;
+      return location ? { latitude: location.lat, longitude: location.lng } : null;
+    }
+
+    await loadGoogleMaps(config);
+    return new Promise((resolve, reject) => {
+      const service = new window.google.maps.places.PlacesService(document.createElement('div'));
+      service.getDetails(
+        { placeId: place.place_id, fields: ['geometry'] },
+        (result: any, status: any) => {
+          const denied = checkGoogleDenied(status);
+          if (denied) {
+            reject(denied);
+          } else if (status === window.google.maps.places.PlacesServiceStatus.OK && result?.geometry) {
+            resolve({
+              latitude: result.geometry.location.lat(),
+              longitude: result.geometry.location.lng(),
+            });
+          } else {
+            resolve(null);
+          }
+        }
+      );
+    });
+  };
+
+  const geocode = async (address: string): Promise<Coordinates | null> => {
+    const country = countries.length === 1 ? countries[0].toUpperCase() : undefined;
+
+    if (!isBrowser()) {
+      const data = await fetchJson(config, 'geocode/json', {
+        address,
+        ...(country && { components: `country:${country}` }),
+      });
+      const location = data.results?.[0]?.geometry?.location;
+      return location ? { latitude: location.lat, longitude: location.lng } : null;
+    }
+
+    await loadGoogleMaps(config);
+    return new Promise((resolve, reject) => {
+      const geocoder = new window.google.maps.Geocoder();
+      geocoder.geocode(
+        { address, ...(country && { componentRestrictions: { country } }) },
+        (results: any, status: any) => {
+          const denied = checkGoogleDenied(status);
+          if (denied) {
+            reject(denied);
+          } else if (status === window.google.maps.GeocoderStatus.OK && results?.[0]) {
+            const location = results[0].geometry.location;
+            resolve({ latitude: location.lat(), longitude: location.lng() });
+          } else {
+            resolve(null);
+          }
+        }
+      );
+    });
+  };
+
+  const reverseGeocode = async ({ latitude, longitude }: Coordinates): Promise<string | null> => {
+    if (!isBrowser()) {
+      const data = await fetchJson(config, 'geocode/json', { latlng: `${latitude},${longitude}` });
+      return data.results?.[0]?.formatted_address ?? null;
+    }
+
+    await loadGoogleMaps(config);
+    return new Promise((resolve, reject) => {
+      const geocoder = new window.google.maps.Geocoder();
+      geocoder.geocode(
+        { location: { lat: latitude, lng: longitude } },
+        (results: any, status: any) => {
+          const denied = checkGoogleDenied(status);
+          if (denied) {
+            reject(denied);
+          } else {
+            resolve(status === window.google.maps.GeocoderStatus.OK ? results?.[0]?.formatted_address ?? null : null);
+          }
+        }
+      );
+    });
+  };
+
+  return { id: 'google', name: 'Google Places', search, getCoordinates, geocode, reverseGeocode };
+}
@@ -0,0 +1,5 @@
+export * from '@/services/places/types';
+export * from '@/services/places/settings';
+export { createGooglePlaceSearchProvider } from '@/services/places/googlePlaceSearchProvider';
+export { DEFAULT_NOMINATIM_URL, createNominatimPlaceSearchProvider } from '@/services/places/nominatimPlaceSearchProvider';
+export { DEFAULT_PHOTON_URL, createPhotonPlaceSearchProvider } from '@/services/places/photonPlaceSearchProvider';
@@ -0,0 +1,83 @@
+import {
+  Coordinates,
+  DEFAULT_PLACE_SEARCH_OPTIONS,
+  PlaceSearchOptions,
+  PlaceSearchProvider,
+  PlaceSuggestion,
+} from '@/services/places/types';
+import { isBrowser } from '@/services/googleMaps';
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Nominatim's usage policy asks every app to identify itself. Browsers send a Referer instead
+// and don't let a page set User-Agent, so only native requests add it.
+const USER_AGENT = 'AyeAuto/1.0 (+https://ayeauto.live)';
+
+interface NominatimResult {
+  osm_type: string;
+  osm_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+const toSuggestion = (result: NominatimResult): PlaceSuggestion => {
+  const [first, ...rest] = result.display_name.split(', ');
+  return {
+    place_id: `${result.osm_type}/${result.osm_id}`,
+    description: result.display_name,
+    structured_formatting: {
+      main_text: result.name || first,
+      secondary_text: (result.name && result.name !== first ? [first, ...rest] : rest).join(', '),
+    },
+    coordinates: { latitude: parseFloat(result.lat), longitude: parseFloat(result.lon) },
+  };
+};
+
+// The public server allows about one request a second, which is fine for geocoding but tight
+// for search-as-you-type. Point it at a self-hosted instance (or use Photon) for heavy use.
+export function createNominatimPlaceSearchProvider(
+  baseUrl: string = DEFAULT_NOMINATIM_URL,
+  overrides: Partial<PlaceSearchOptions> = {}
+): PlaceSearchProvider {
+  const endpoint = baseUrl.replace(/\/+$/, '');
+  const options = { ...DEFAULT_PLACE_SEARCH_OPTIONS, ...overrides };
+  const headers: Record<string, string> = isBrowser()
+    ? { Accept: 'application/json' }
+    : { Accept: 'application/json', 'User-Agent': USER_AGENT };
+
+  const request = async (query: string, limit: number): Promise<NominatimResult[]> => {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(limit) });
+    if (options.countryCodes.length > 0) {
+      params.append('countrycodes', options.countryCodes.join(','));
+    }
+    const response = await fetch(`${endpoint}/search?${params}`, { headers });
+    if (!response.ok) {
+      throw new Error(`Nominatim search failed (${response.status})`);
+    }
+    return response.json();
+  };
+
+  const search = async (query: string) => (await request(query, options.limit)).map(toSuggestion);
+
+  const getCoordinates = async (place: PlaceSuggestion): Promise<Coordinates | null> =>
+    place.coordinates ?? geocode(place.description);
+
+  const geocode = async (address: string): Promise<Coordinates | null> => {
+    const [first] = await request(address, 1);
+    return first ? { latitude: parseFloat(first.lat), longitude: parseFloat(first.lon) } : null;
+  };
+
+  const reverseGeocode = async ({ latitude, longitude }: Coordinates): Promise<string | null> => {
+    const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude), format: 'jsonv2', zoom: '18' });
+    const response = await fetch(`${endpoint}/reverse?${params}`, { headers });
+    if (!response.ok) {
+      throw new Error(`Nominatim reverse lookup failed (${response.status})`);
+    }
+    const result: Partial<NominatimResult> & { error?: string } = await response.json();
+    return result.display_name ?? null; // Nominatim answers { error } for places in the sea
+  };
+
+  return { id: 'nominatim', name: 'Nominatim', search, getCoordinates, geocode, reverseGeocode };
+}
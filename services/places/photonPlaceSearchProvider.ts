@@ -0,0 +1,86 @@
+import {
+  Coordinates,
+  DEFAULT_PLACE_SEARCH_OPTIONS,
+  PlaceSearchOptions,
+  PlaceSearchProvider,
+  PlaceSuggestion,
+} from '@/services/places/types';
+
+export const DEFAULT_PHOTON_URL = 'https://photon.komoot.io';
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    osm_type: string;
+    osm_id: number;
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    district?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+  };
+}
+
+const toSuggestion = ({ geometry, properties }: PhotonFeature): PlaceSuggestion => {
+  const street = [properties.housenumber, properties.street].filter(Boolean).join(' ');
+  const mainText = properties.name || street || properties.city || properties.country || 'Unnamed place';
+  const secondaryText = [properties.name ? street : '', properties.district, properties.city, properties.state]
+    .filter(part => part && part !== mainText)
+    .join(', ');
+
+  return {
+    place_id: `${properties.osm_type}/${properties.osm_id}`,
+    description: secondaryText ? `${mainText}, ${secondaryText}` : mainText,
+    structured_formatting: { main_text: mainText, secondary_text: secondaryText },
+    coordinates: { latitude: geometry.coordinates[1], longitude: geometry.coordinates[0] },
+  };
+};
+
+// Photon is built for search-as-you-type. It can't restrict by country, so extra results
+// are requested and the other countries dropped here.
+export function createPhotonPlaceSearchProvider(
+  baseUrl: string = DEFAULT_PHOTON_URL,
+  overrides: Partial<PlaceSearchOptions> = {}
+): PlaceSearchProvider {
+  const endpoint = baseUrl.replace(/\/+$/, '');
+  const options = { ...DEFAULT_PLACE_SEARCH_OPTIONS, ...overrides };
+  const countries = options.countryCodes.map(code => code.toUpperCase());
+
+  const request = async (query: string, limit: number): Promise<PhotonFeature[]> => {
+    const fetchLimit = countries.length > 0 ? limit * 4 : limit;
+    const params = new URLSearchParams({ q: query, limit: String(fetchLimit), lang: 'en' });
+    const response = await fetch(`${endpoint}/api/?${params}`);
+    if (!response.ok) {
+      throw new Error(`Photon search failed (${response.status})`);
+    }
+    const data: { features: PhotonFeature[] } = await response.json();
+    return data.features
+      .filter(feature => countries.length === 0 || countries.includes(feature.properties.countrycode?.toUpperCase() ?? ''))
+      .slice(0, limit);
+  };
+
+  const search = async (query: string) => (await request(query, options.limit)).map(toSuggestion);
+
+  const getCoordinates = async (place: PlaceSuggestion): Promise<Coordinates | null> =>
+    place.coordinates ?? geocode(place.description);
+
+  const geocode = async (address: string): Promise<Coordinates | null> => {
+    const [first] = await request(address, 1);
+    return first ? { latitude: first.geometry.coordinates[1], longitude: first.geometry.coordinates[0] } : null;
+  };
+
+  const reverseGeocode = async ({ latitude, longitude }: Coordinates): Promise<string | null> => {
+    const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude), lang: 'en' });
+    const response = await fetch(`${endpoint}/reverse?${params}`);
+    if (!response.ok) {
+      throw new Error(`Photon reverse lookup failed (${response.status})`);
+    }
+    const data: { features: PhotonFeature[] } = await response.json();
+    return data.features[0] ? toSuggestion(data.features[0]).description : null;
+  };
+
+  return { id: 'photon', name: 'Photon', search, getCoordinates, geocode, reverseGeocode };
+}
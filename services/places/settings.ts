@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GoogleMapsConfig } from '@/services/googleMaps';
+import { PlaceSearchProvider, PlaceSearchProviderId } from '@/services/places/types';
+import { createGooglePlaceSearchProvider } from '@/services/places/googlePlaceSearchProvider';
+import { DEFAULT_NOMINATIM_URL, createNominatimPlaceSearchProvider } from '@/services/places/nominatimPlaceSearchProvider';
+import { DEFAULT_PHOTON_URL, createPhotonPlaceSearchProvider } from '@/services/places/photonPlaceSearchProvider';
+
+const STORAGE_KEY = 'placeSearchSettings';
+
+export interface PlaceSearchSettings {
+  provider: PlaceSearchProviderId;
+  nominatimUrl: string;
+  photonUrl: string;
+  countryCodes: string[];
+}
+
+export const DEFAULT_PLACE_SEARCH_SETTINGS: PlaceSearchSettings = {
+  provider: 'google',
+  nominatimUrl: DEFAULT_NOMINATIM_URL,
+  photonUrl: DEFAULT_PHOTON_URL,
+  countryCodes: ['in'],
+};
+
+export const PLACE_SEARCH_PROVIDERS: { id: PlaceSearchProviderId; label: string }[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'nominatim', label: 'Nominatim' },
+  { id: 'photon', label: 'Photon' },
+];
+
+// "in, lk" -> ['in', 'lk']. Anything that isn't a two letter code is dropped.
+export const parseCountryCodes = (value: string): string[] =>
+  value
+    .split(/[\s,]+/)
+    .map(code => code.trim().toLowerCase())
+    .filter(code => /^[a-z]{2}$/.test(code));
+
+export const normalizePlaceSearchSettings = (raw: unknown): PlaceSearchSettings => {
+  const value: Partial<Record<keyof PlaceSearchSettings, unknown>> = raw && typeof raw === 'object' ? raw : {};
+  const readUrl = (url: unknown, fallback: string) => (typeof url === 'string' && url ? url : fallback);
+  return {
+    provider: PLACE_SEARCH_PROVIDERS.find(({ id }) => id === value.provider)?.id ?? DEFAULT_PLACE_SEARCH_SETTINGS.provider,
+    nominatimUrl: readUrl(value.nominatimUrl, DEFAULT_NOMINATIM_URL),
+    photonUrl: readUrl(value.photonUrl, DEFAULT_PHOTON_URL),
+    countryCodes: Array.isArray(value.countryCodes)
+      ? parseCountryCodes(value.countryCodes.join(','))
+      : [...DEFAULT_PLACE_SEARCH_SETTINGS.countryCodes],
+  };
+};
+
+// Returns a message describing the first problem, or null when the settings are usable
+export const validatePlaceSearchSettings = (settings: PlaceSearchSettings): string | null => {
+  const isUrl = (value: string) => /^https?:\/\/\S+$/.test(value.trim());
+  if (settings.provider === 'nominatim' && !isUrl(settings.nominatimUrl)) {
+    return 'Nominatim server must be an http:// or https:// URL';
+  }
+  if (settings.provider === 'photon' && !isUrl(settings.photonUrl)) {
+    return 'Photon server must be an http:// or https:// URL';
+  }
+  return null;
+};
+
+export const loadPlaceSearchSettings = async (): Promise<PlaceSearchSettings> => {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return normalizePlaceSearchSettings(JSON.parse(saved));
+    }
+  } catch (error) {
+    console.error('Error loading place search settings:', error);
+  }
+  return { ...DEFAULT_PLACE_SEARCH_SETTINGS };
+};
+
+export const savePlaceSearchSettings = async (settings: PlaceSearchSettings): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createPlaceSearchProvider = (
+  settings: PlaceSearchSettings,
+  googleMaps: GoogleMapsConfig
+): PlaceSearchProvider => {
+  const options = { countryCodes: settings.countryCodes };
+  switch (settings.provider) {
+    case 'nominatim':
+      return createNominatimPlaceSearchProvider(settings.nominatimUrl.trim(), options);
+    case 'photon':
+      return createPhotonPlaceSearchProvider(settings.photonUrl.trim(), options);
+    default:
+      return createGooglePlaceSearchProvider(googleMaps, options);
+  }
+};
@@ -0,0 +1,37 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// The shape PlaceAutocomplete renders. Providers that return positions with their
+// results (Nominatim, Photon) fill in coordinates so no second lookup is needed.
+export interface PlaceSuggestion {
+  place_id: string;
+  description: string;
+  structured_formatting: {
+    main_text: string;
+    secondary_text: string;
+  };
+  coordinates?: Coordinates;
+}
+
+export type PlaceSearchProviderId = 'google' | 'nominatim' | 'photon';
+
+export interface PlaceSearchOptions {
+  countryCodes: string[]; // ISO 3166-1 alpha-2, lower case. Empty searches everywhere.
+  limit: number;
+}
+
+export const DEFAULT_PLACE_SEARCH_OPTIONS: PlaceSearchOptions = {
+  countryCodes: ['in'],
+  limit: 5,
+};
+
+export interface PlaceSearchProvider {
+  id: PlaceSearchProviderId;
+  name: string;
+  search: (query: string) => Promise<PlaceSuggestion[]>;
+  getCoordinates: (place: PlaceSuggestion) => Promise<Coordinates | null>;
+  geocode: (address: string) => Promise<Coordinates | null>;
+  reverseGeocode: (coordinates: Coordinates) => Promise<string | null>; // An address for display
+}
@@ -0,0 +1,11 @@
+import { Coordinates, createNominatimPlaceSearchProvider } from '@/services/places';
+import { RouteLocation } from '@/services/routing/types';
+
+export type Geocoder = (address: string) => Promise<Coordinates | null>;
+
+// OSRM and GraphHopper only take coordinates, so typed addresses are looked up first.
+// Callers pass the configured place search, Nominatim is the fallback.
+export const defaultGeocoder: Geocoder = address => createNominatimPlaceSearchProvider().geocode(address);
+
+export const resolveCoordinates = async (location: RouteLocation, geocode: Geocoder): Promise<Coordinates | null> =>
+  location.coordinates ?? geocode(location.address);
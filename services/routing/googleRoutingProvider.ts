@@ -0,0 +1,266 @@
+import {
+  Coordinates,
+  DEFAULT_MAX_ALTERNATIVES,
+  RouteLocation,
+  RouteOptions,
+  RouteResult,
+  RoutingProvider,
+} from '@/services/routing/types';
+import {
+  GoogleMapsConfig,
+  checkGoogleDenied,
+  isBrowser,
+  loadGoogleMaps,
+  requireGoogleMapsKey,
+} from '@/services/googleMaps';
+import { asArray, asNumber, asRecord, asString } from '@/utils/narrow';
+
+interface DistanceMatrixElement {
+  status: string;
+  distance?: { value: number }; // Metres
+  duration?: { value: number }; // Seconds
+  duration_in_traffic?: { value: number }; // Seconds, only when a departure time was sent
+}
+
+const toResult = (element: DistanceMatrixElement | undefined): RouteResult | null => {
+  if (!element || element.status !== 'OK' || !element.distance || !element.duration) return null;
+  return {
+    distanceKm: element.distance.value / 1000,
+    durationMinutes: element.duration.value / 60,
+    durationInTrafficMinutes: element.duration_in_traffic && element.duration_in_traffic.value / 60,
+    geometry: [],
+    provider: 'Google',
+  };
+};
+
+// Google rejects departure times in the past
+const toDepartureTime = (options?: RouteOptions): Date =>
+  new Date(Math.max(options?.departureTime?.getTime() ?? 0, Date.now()));
+
+const toQuery = (location: RouteLocation) =>
+  location.coordinates
+    ? `${location.coordinates.latitude},${location.coordinates.longitude}`
+    : location.address;
+
+// The browser has to go through the Maps JS API, the REST endpoints don't allow CORS
+const routeWithJsApi = (
+  config: GoogleMapsConfig,
+  origin: RouteLocation,
+  destination: RouteLocation,
+  options?: RouteOptions
+): Promise<RouteResult | null> =>
+  new Promise((resolve, reject) => {
+    const service = new window.google.maps.DistanceMatrixService();
+    service.getDistanceMatrix(
+      {
+        origins: [toQuery(origin)],
+        destinations: [toQuery(destination)],
+        travelMode: window.google.maps.TravelMode.DRIVING,
+        unitSystem: window.google.maps.UnitSystem.METRIC,
+        avoidHighways: false,
+        avoidTolls: true,
+        region: config.region.toLowerCase(),
+        drivingOptions: { departureTime: toDepartureTime(options), trafficModel: 'bestguess' },
+      },
+      (response: any, status: any) => {
+        const denied = checkGoogleDenied(status);
+        if (denied) {
+          reject(denied);
+        } else if (status !== window.google.maps.DistanceMatrixStatus.OK || !response) {
+          reject(new Error(`Google Distance Matrix failed (${status})`));
+        } else {
+          resolve(toResult(response.rows[0]?.elements[0]));
+        }
+      }
+    );
+  });
+
+const routeWithRestApi = async (
+  config: GoogleMapsConfig,
+  origin: RouteLocation,
+  destination: RouteLocation,
+  options?: RouteOptions
+): Promise<RouteResult | null> => {
+  const params = new URLSearchParams({
+    origins: toQuery(origin),
+    destinations: toQuery(destination),
+    mode: 'driving',
+    units: 'metric',
+    avoid: 'tolls',
+    departure_time: String(Math.round(toDepartureTime(options).getTime() / 1000)),
+    traffic_model: 'best_guess',
+    region: config.region.toLowerCase(),
+    key: config.apiKey,
+  });
+  const response = await fetch(`https://maps.googleapis.com/maps/api/distancematrix/json?${params}`);
+  const data = await response.json();
+  const denied = checkGoogleDenied(data.status, data.error_message);
+  if (denied) throw denied;
+  if (!response.ok || data.status !== 'OK') {
+    throw new Error(data.error_message ?? `Google Distance Matrix failed (${data.status ?? response.status})`);
+  }
+  return toResult(data.rows[0]?.elements[0]);
+};
+
+interface DirectionsLeg {
+  distance?: { value: number }; // Metres
+  duration?: { value: number }; // Seconds
+  duration_in_traffic?: { value: number }; // Seconds
+}
+
+const toMeasure = (raw: unknown): { value: number } | undefined => {
+  const value = asNumber(asRecord(raw).value);
+  return value === null ? undefined : { value };
+};
+
+// The REST response is plain JSON, so each field is checked before use
+const toDirectionsLeg = (raw: unknown): DirectionsLeg => {
+  const leg = asRecord(raw);
+  return {
+    distance: toMeasure(leg.distance),
+    duration: toMeasure(leg.duration),
+    duration_in_traffic: toMeasure(leg.duration_in_traffic),
+  };
+};
+
+const toDirectionsResult = (leg: DirectionsLeg | undefined, geometry: Coordinates[]): RouteResult | null => {
+  if (!leg?.distance || !leg.duration) return null;
+  return {
+    distanceKm: leg.distance.value / 1000,
+    durationMinutes: leg.duration.value / 60,
+    durationInTrafficMinutes: leg.duration_in_traffic && leg.duration_in_traffic.value / 60,
+    geometry,
+    provider: 'Google',
+  };
+};
+
+// Google's encoded polyline format, see developers.google.com/maps/documentation/utilities/polylinealgorithm
+const decodePolyline = (encoded: string): Coordinates[] => {
+  const points: Coordinates[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    latitude += readValue();
+    longitude += readValue();
+    points.push({ latitude: latitude / 1e5, longitude: longitude / 1e5 });
+  }
+  return points;
+};
+
+// Alternatives need the Directions API, the Distance Matrix only ever returns one route
+const alternativesWithJsApi = (
+  config: GoogleMapsConfig,
+  origin: RouteLocation,
+  destination: RouteLocation,
+  options?: RouteOptions
+): Promise<RouteResult[]> =>
+  new Promise((resolve, reject) => {
+    const service = new window.google.maps.DirectionsService();
+    service.route(
+      {
+        origin: toQuery(origin),
+        destination: toQuery(destination),
+        travelMode: window.google.maps.TravelMode.DRIVING,
+        provideRouteAlternatives: true,
+        avoidTolls: true,
+        region: config.region.toLowerCase(),
+        drivingOptions: { departureTime: toDepartureTime(options), trafficModel: 'bestguess' },
+      },
+      (response: any, status: any) => {
+        const denied = checkGoogleDenied(status);
+        if (denied) {
+          reject(denied);
+        } else if (status === window.google.maps.DirectionsStatus.ZERO_RESULTS
+          || status === window.google.maps.DirectionsStatus.NOT_FOUND) {
+          resolve([]);
+        } else if (status !== window.google.maps.DirectionsStatus.OK || !response) {
+          reject(new Error(`Google Directions failed (${status})`));
+        } else {
+          resolve(response.routes
+            .map((route: any) => toDirectionsResult(
+              route.legs[0],
+              route.overview_path.map((point: any) => ({ latitude: point.lat(), longitude: point.lng() }))
+            ))
+            .filter((result: RouteResult | null): result is RouteResult => result !== null));
+        }
+      }
+    );
+  });
+
+const alternativesWithRestApi = async (
+  config: GoogleMapsConfig,
+  origin: RouteLocation,
+  destination: RouteLocation,
+  options?: RouteOptions
+): Promise<RouteResult[]> => {
+  const params = new URLSearchParams({
+    origin: toQuery(origin),
+    destination: toQuery(destination),
+    mode: 'driving',
+    alternatives: 'true',
+    avoid: 'tolls',
+    departure_time: String(Math.round(toDepartureTime(options).getTime() / 1000)),
+    traffic_model: 'best_guess',
+    region: config.region.toLowerCase(),
+    key: config.apiKey,
+  });
+  const response = await fetch(`https://maps.googleapis.com/maps/api/directions/json?${params}`);
+  const data = asRecord(await response.json());
+  const status = asString(data.status);
+  const errorMessage = asString(data.error_message) ?? undefined;
+  const denied = checkGoogleDenied(status, errorMessage);
+  if (denied) throw denied;
+  if (status === 'ZERO_RESULTS' || status === 'NOT_FOUND') return [];
+  if (!response.ok || status !== 'OK') {
+    throw new Error(errorMessage ?? `Google Directions failed (${status ?? response.status})`);
+  }
+  return asArray(data.routes)
+    .map(raw => {
+      const route = asRecord(raw);
+      const polyline = asString(asRecord(route.overview_polyline).points) ?? '';
+      return toDirectionsResult(toDirectionsLeg(asArray(route.legs)[0]), decodePolyline(polyline));
+    })
+    .filter((result): result is RouteResult => result !== null);
+};
+
+export function createGoogleRoutingProvider(config: GoogleMapsConfig): RoutingProvider {
+  return {
+    id: 'google',
+    name: 'Google Maps',
+
+    route: async (origin, destination, options) => {
+      if (isBrowser()) {
+        await loadGoogleMaps(config);
+        return routeWithJsApi(config, origin, destination, options);
+      }
+      requireGoogleMapsKey(config);
+      return routeWithRestApi(config, origin, destination, options);
+    },
+
+    routeAlternatives: async (origin, destination, options) => {
+      let routes: RouteResult[];
+      if (isBrowser()) {
+        await loadGoogleMaps(config);
+        routes = await alternativesWithJsApi(config, origin, destination, options);
+      } else {
+        requireGoogleMapsKey(config);
+        routes = await alternativesWithRestApi(config, origin, destination, options);
+      }
+      return routes.slice(0, options?.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES);
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { DEFAULT_MAX_ALTERNATIVES, RouteLocation, RouteResult, RoutingProvider } from '@/services/routing/types';
+import { Geocoder, defaultGeocoder, resolveCoordinates } from '@/services/routing/geocoding';
+
+export const DEFAULT_GRAPHHOPPER_URL = 'https://graphhopper.com/api/1';
+
+interface GraphHopperResponse {
+  message?: string;
+  paths?: {
+    distance: number; // Metres
+    time: number; // Milliseconds
+    points: { coordinates: [number, number][] };
+  }[];
+}
+
+// The hosted API needs a key, a self-hosted GraphHopper server usually doesn't
+export function createGraphHopperRoutingProvider(
+  baseUrl: string = DEFAULT_GRAPHHOPPER_URL,
+  apiKey?: string,
+  geocode: Geocoder = defaultGeocoder
+): RoutingProvider {
+  const endpoint = baseUrl.replace(/\/+$/, '');
+
+  const request = async (
+    origin: RouteLocation,
+    destination: RouteLocation,
+    maxAlternatives: number
+  ): Promise<RouteResult[]> => {
+    const [from, to] = await Promise.all([
+      resolveCoordinates(origin, geocode),
+      resolveCoordinates(destination, geocode),
+    ]);
+    if (!from || !to) return [];
+
+    const params = new URLSearchParams({ profile: 'car', points_encoded: 'false' });
+    params.append('point', `${from.latitude},${from.longitude}`);
+    params.append('point', `${to.latitude},${to.longitude}`);
+    if (maxAlternatives > 1) {
+      params.append('algorithm', 'alternative_route');
+      params.append('alternative_route.max_paths', String(maxAlternatives));
+    }
+    if (apiKey) params.append('key', apiKey);
+
+    const response = await fetch(`${endpoint}/route?${params}`);
+    const data: GraphHopperResponse = await response.json();
+
+    if (!response.ok || !data.paths?.length) {
+      // GraphHopper answers 400 with this message when the points aren't connected
+      if (data.message?.includes('Connection between locations not found')) return [];
+      throw new Error(data.message ?? `GraphHopper request failed (${response.status})`);
+    }
+
+    return data.paths.slice(0, maxAlternatives).map(path => ({
+      distanceKm: path.distance / 1000,
+      durationMinutes: path.time / 60000,
+      geometry: path.points.coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+      provider: 'GraphHopper',
+    }));
+  };
+
+  return {
+    id: 'graphhopper',
+    name: 'GraphHopper',
+    route: async (origin, destination) => (await request(origin, destination, 1))[0] ?? null,
+    routeAlternatives: (origin, destination, options) =>
+      request(origin, destination, options?.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES),
+  };
+}
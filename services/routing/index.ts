@@ -0,0 +1,8 @@
+export * from '@/services/routing/types';
+export * from '@/services/routing/settings';
+export { routeStops } from '@/services/routing/stops';
+export type { Geocoder } from '@/services/routing/geocoding';
+export { defaultGeocoder, resolveCoordinates } from '@/services/routing/geocoding';
+export { createGoogleRoutingProvider } from '@/services/routing/googleRoutingProvider';
+export { DEFAULT_OSRM_URL, createOsrmRoutingProvider } from '@/services/routing/osrmRoutingProvider';
+export { DEFAULT_GRAPHHOPPER_URL, createGraphHopperRoutingProvider } from '@/services/routing/graphHopperRoutingProvider';
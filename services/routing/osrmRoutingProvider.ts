@@ -0,0 +1,62 @@
+import { DEFAULT_MAX_ALTERNATIVES, RouteLocation, RouteResult, RoutingProvider } from '@/services/routing/types';
+import { Geocoder, defaultGeocoder, resolveCoordinates } from '@/services/routing/geocoding';
+
+export const DEFAULT_OSRM_URL = 'https://router.project-osrm.org';
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    distance: number; // Metres
+    duration: number; // Seconds
+    geometry: { coordinates: [number, number][] };
+  }[];
+}
+
+// Works against the public demo server or any self-hosted osrm-routed with the car profile
+export function createOsrmRoutingProvider(
+  baseUrl: string = DEFAULT_OSRM_URL,
+  geocode: Geocoder = defaultGeocoder
+): RoutingProvider {
+  const endpoint = baseUrl.replace(/\/+$/, '');
+
+  // OSRM only finds alternatives that differ enough from the fastest route, so fewer may come back
+  const request = async (
+    origin: RouteLocation,
+    destination: RouteLocation,
+    maxAlternatives: number
+  ): Promise<RouteResult[]> => {
+    const [from, to] = await Promise.all([
+      resolveCoordinates(origin, geocode),
+      resolveCoordinates(destination, geocode),
+    ]);
+    if (!from || !to) return [];
+
+    const path = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+    const alternatives = maxAlternatives > 1 ? String(maxAlternatives - 1) : 'false';
+    const response = await fetch(
+      `${endpoint}/route/v1/driving/${path}?overview=full&geometries=geojson&alternatives=${alternatives}`
+    );
+    const data: OsrmResponse = await response.json();
+
+    if (data.code === 'NoRoute' || data.code === 'NoSegment') return [];
+    if (!response.ok || data.code !== 'Ok' || !data.routes?.length) {
+      throw new Error(data.message ?? `OSRM request failed (${response.status})`);
+    }
+
+    return data.routes.slice(0, maxAlternatives).map(route => ({
+      distanceKm: route.distance / 1000,
+      durationMinutes: route.duration / 60,
+      geometry: route.geometry.coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+      provider: 'OSRM',
+    }));
+  };
+
+  return {
+    id: 'osrm',
+    name: 'OSRM',
+    route: async (origin, destination) => (await request(origin, destination, 1))[0] ?? null,
+    routeAlternatives: (origin, destination, options) =>
+      request(origin, destination, options?.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES),
+  };
+}
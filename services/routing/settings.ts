@@ -0,0 +1,88 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RoutingProvider, RoutingProviderId } from '@/services/routing/types';
+import { GoogleMapsConfig } from '@/services/googleMaps';
+import { Geocoder } from '@/services/routing/geocoding';
+import { createGoogleRoutingProvider } from '@/services/routing/googleRoutingProvider';
+import { DEFAULT_OSRM_URL, createOsrmRoutingProvider } from '@/services/routing/osrmRoutingProvider';
+import { DEFAULT_GRAPHHOPPER_URL, createGraphHopperRoutingProvider } from '@/services/routing/graphHopperRoutingProvider';
+
+const STORAGE_KEY = 'routingSettings';
+
+export interface RoutingSettings {
+  provider: RoutingProviderId;
+  osrmUrl: string;
+  graphHopperUrl: string;
+  graphHopperApiKey: string;
+}
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  provider: 'google',
+  osrmUrl: DEFAULT_OSRM_URL,
+  graphHopperUrl: DEFAULT_GRAPHHOPPER_URL,
+  graphHopperApiKey: '',
+};
+
+export const ROUTING_PROVIDERS: { id: RoutingProviderId; label: string }[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'osrm', label: 'OSRM' },
+  { id: 'graphhopper', label: 'GraphHopper' },
+];
+
+export const normalizeRoutingSettings = (raw: unknown): RoutingSettings => {
+  const value: Partial<Record<keyof RoutingSettings, unknown>> = raw && typeof raw === 'object' ? raw : {};
+  const readUrl = (url: unknown, fallback: string) => (typeof url === 'string' && url ? url : fallback);
+  return {
+    provider: ROUTING_PROVIDERS.find(({ id }) => id === value.provider)?.id ?? DEFAULT_ROUTING_SETTINGS.provider,
+    osrmUrl: readUrl(value.osrmUrl, DEFAULT_OSRM_URL),
+    graphHopperUrl: readUrl(value.graphHopperUrl, DEFAULT_GRAPHHOPPER_URL),
+    graphHopperApiKey: typeof value.graphHopperApiKey === 'string' ? value.graphHopperApiKey : '',
+  };
+};
+
+// Returns a message describing the first problem, or null when the settings are usable
+export const validateRoutingSettings = (settings: RoutingSettings): string | null => {
+  const isUrl = (value: string) => /^https?:\/\/\S+$/.test(value.trim());
+  if (settings.provider === 'osrm' && !isUrl(settings.osrmUrl)) {
+    return 'OSRM server must be an http:// or https:// URL';
+  }
+  if (settings.provider === 'graphhopper' && !isUrl(settings.graphHopperUrl)) {
+    return 'GraphHopper server must be an http:// or https:// URL';
+  }
+  return null;
+};
+
+export const loadRoutingSettings = async (): Promise<RoutingSettings> => {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return normalizeRoutingSettings(JSON.parse(saved));
+    }
+  } catch (error) {
+    console.error('Error loading routing settings:', error);
+  }
+  return { ...DEFAULT_ROUTING_SETTINGS };
+};
+
+export const saveRoutingSettings = async (settings: RoutingSettings): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// geocode turns typed addresses into coordinates for the OpenStreetMap routers
+export const createRoutingProvider = (
+  settings: RoutingSettings,
+  googleMaps: GoogleMapsConfig,
+  geocode?: Geocoder
+): RoutingProvider => {
+  switch (settings.provider) {
+    case 'osrm':
+      return createOsrmRoutingProvider(settings.osrmUrl.trim(), geocode);
+    case 'graphhopper':
+      return createGraphHopperRoutingProvider(
+        settings.graphHopperUrl.trim(),
+        settings.graphHopperApiKey.trim() || undefined,
+        geocode
+      );
+    default:
+      return createGoogleRoutingProvider(googleMaps);
+  }
+};
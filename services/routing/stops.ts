@@ -0,0 +1,17 @@
+import { RouteLocation, RouteOptions, RouteResult, RoutingProvider } from '@/services/routing/types';
+
+// Routes each consecutive pair of stops. Legs go one at a time because the public OSM servers
+// throttle bursts. Stops at the first leg without a route, which is left as null at the end.
+export const routeStops = async (
+  provider: RoutingProvider,
+  stops: RouteLocation[],
+  options?: RouteOptions
+): Promise<(RouteResult | null)[]> => {
+  const legs: (RouteResult | null)[] = [];
+  for (let i = 1; i < stops.length; i++) {
+    const leg = await provider.route(stops[i - 1], stops[i], options);
+    legs.push(leg);
+    if (!leg) break;
+  }
+  return legs;
+};
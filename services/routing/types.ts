@@ -0,0 +1,41 @@
+import { Coordinates } from '@/services/places';
+
+export type { Coordinates };
+
+// What the planner knows about a stop: always the text the user typed or picked,
+// and coordinates when a place search or the map already resolved them
+export interface RouteLocation {
+  address: string;
+  coordinates?: Coordinates;
+}
+
+export interface RouteResult {
+  distanceKm: number;
+  durationMinutes: number;
+  durationInTrafficMinutes?: number; // Only from providers with traffic data, for the requested departure
+  geometry: Coordinates[]; // Empty when the provider doesn't return a path
+  provider: string;
+}
+
+export type RoutingProviderId = 'google' | 'osrm' | 'graphhopper';
+
+export const DEFAULT_MAX_ALTERNATIVES = 3;
+
+export interface RouteOptions {
+  departureTime?: Date; // Providers with traffic data predict for this time, now when missing or past
+  maxAlternatives?: number; // routeAlternatives only, DEFAULT_MAX_ALTERNATIVES when missing
+}
+
+// A driving route between two stops. Resolves to null when the provider found no route,
+// and rejects when the provider itself couldn't be reached or refused the request.
+// routeAlternatives returns the provider's preferred route first, and an empty list for no route.
+export interface RoutingProvider {
+  id: RoutingProviderId;
+  name: string;
+  route: (origin: RouteLocation, destination: RouteLocation, options?: RouteOptions) => Promise<RouteResult | null>;
+  routeAlternatives: (
+    origin: RouteLocation,
+    destination: RouteLocation,
+    options?: RouteOptions
+  ) => Promise<RouteResult[]>;
+}
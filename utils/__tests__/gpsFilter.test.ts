@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { measureTrack } from '@/utils/gpsFilter';
+import { parseGpx, toGpsFixes } from '@/utils/trackFormats';
+
+// A 3.0 km ride in Kochi laid along real roads with phone-like noise: two minutes of jitter
+// while waiting at the pickup, a 120 m accuracy fix thrown 350 m off by a flyover, then an
+// underpass with no fixes for 500 m.
+const FIXTURE = path.join(__dirname, 'fixtures', 'kochi-wait-outlier-underpass.gpx');
+const EXPECTED_KM = 2.974; // Smoothing trails the last few metres, so a little under 3.0
+
+const fixes = toGpsFixes(parseGpx(fs.readFileSync(FIXTURE, 'utf8')));
+
+test('measures the recorded ride', () => {
+  const { distanceKm } = measureTrack(fixes);
+  assert.ok(Math.abs(distanceKm - EXPECTED_KM) < 0.01, `measured ${distanceKm.toFixed(3)} km`);
+});
+
+test('charges nothing while waiting at the pickup', () => {
+  const { results } = measureTrack(fixes.slice(0, 24));
+  assert.equal(results.reduce((sum, result) => sum + result.distanceKm, 0), 0);
+});
+
+test('ignores the low-accuracy fix', () => {
+  const { results } = measureTrack(fixes);
+  assert.deepEqual(
+    results.flatMap((result, index) => (result.status === 'low-accuracy' ? [fixes[index].accuracy] : [])),
+    [120]
+  );
+});
+
+// 500 m in 75 s is a plausible speed, so the first fix after the gap counts rather than being
+// taken for a jump
+test('carries on counting after the underpass', () => {
+  const gapIndex = fixes.findIndex((fix, index) => index > 0 && fix.timestamp - fixes[index - 1].timestamp > 60000);
+  const { results } = measureTrack(fixes);
+  assert.equal(results[gapIndex].status, 'counted');
+  assert.ok(results.every(result => result.status !== 'implausible-speed'));
+});
+
+// An accurate fix 1 km off, one second after the last, would mean driving at 3600 km/h
+test('ignores an accurate fix that jumps impossibly far', () => {
+  const index = 50;
+  const before = fixes[index - 1];
+  const jump = { ...before, latitude: before.latitude + 0.009, accuracy: 5, timestamp: before.timestamp + 1000 };
+  const withJump = [...fixes.slice(0, index), jump, ...fixes.slice(index)];
+
+  const { distanceKm, results } = measureTrack(withJump);
+  assert.equal(results[index].status, 'implausible-speed');
+  assert.equal(results[index].distanceKm, 0);
+  assert.equal(distanceKm, measureTrack(fixes).distanceKm);
+});
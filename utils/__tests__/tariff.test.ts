@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_TARIFF,
+  Tariff,
+  calculateFare,
+  calculateFareBreakdown,
+  meteredNightFraction,
+  planNightFraction,
+  splitFareByLeg,
+  validateTariff,
+} from '@/utils/tariff';
+
+// ₹30 for the first 2 km, ₹15/km to 5 km, ₹20/km after. Night is 10 PM to 5 AM, charged for the
+// distance driven inside it.
+const TARIFF: Tariff = {
+  name: 'Test',
+  minimumFare: 30,
+  baseDistance: 2,
+  slabs: [
+    { upToKm: 5, ratePerKm: 15 },
+    { upToKm: null, ratePerKm: 20 },
+  ],
+  waiting: { ratePerMinute: 2, freeMinutes: 5, speedThresholdKmh: 5 },
+  night: { multiplier: 1.5, startHour: 22, endHour: 5, policy: 'split-by-time' },
+  rounding: { mode: 'nearest', step: 1 },
+};
+
+// Local time, like the hours in the night rule
+const at = (hours: number, minutes = 0) => new Date(2026, 0, 15, hours, minutes);
+
+test('charges the minimum fare within the base distance', () => {
+  const breakdown = calculateFareBreakdown(TARIFF, { distanceKm: 1.2, nightFraction: 0 });
+  assert.deepEqual(breakdown.slabCharges, []);
+  assert.equal(breakdown.total, 30);
+});
+
+test('charges each slab, waiting past the free minutes and the night share', () => {
+  const breakdown = calculateFareBreakdown(TARIFF, { distanceKm: 8, nightFraction: 0.5, waitingMinutes: 12 });
+  assert.deepEqual(
+    breakdown.slabCharges.map(({ fromKm, toKm, amount }) => [fromKm, toKm, amount]),
+    [[2, 5, 45], [5, 8, 60]]
+  );
+  assert.equal(breakdown.distanceFare, 135);
+  assert.equal(breakdown.chargeableWaitingMinutes, 7);
+  assert.equal(breakdown.waitingCharge, 14);
+  assert.equal(breakdown.nightSurcharge, 149 * 0.5 * 0.5);
+  assert.equal(breakdown.total, 186);
+  assert.equal(breakdown.roundingAdjustment, -0.25);
+});
+
+test('rounds to the tariff step in its direction', () => {
+  const input = { distanceKm: 8, nightFraction: 0.5, waitingMinutes: 12 }; // 186.25 before rounding
+  assert.equal(calculateFare({ ...TARIFF, rounding: { mode: 'up', step: 5 } }, input), 190);
+  assert.equal(calculateFare({ ...TARIFF, rounding: { mode: 'down', step: 5 } }, input), 185);
+  assert.equal(calculateFare({ ...TARIFF, rounding: { mode: 'nearest', step: 10 } }, input), 190);
+});
+
+test('splits a multi-stop fare into legs that add up to the whole ride', () => {
+  const legs = [
+    { distanceKm: 3, waitingMinutes: 0 },
+    { distanceKm: 4, waitingMinutes: 10 },
+    { distanceKm: 2.5, waitingMinutes: 0 },
+  ];
+  const fares = splitFareByLeg(TARIFF, legs, 0.25);
+  assert.equal(fares[0], calculateFare(TARIFF, { distanceKm: 3, nightFraction: 0.25 }));
+  assert.equal(
+    fares.reduce((sum, fare) => sum + fare, 0),
+    calculateFare(TARIFF, { distanceKm: 9.5, nightFraction: 0.25, waitingMinutes: 10 })
+  );
+});
+
+test('plans the night share of a trip across midnight', () => {
+  assert.equal(planNightFraction(TARIFF.night, at(21, 30), 60), 0.5);
+  assert.equal(planNightFraction(TARIFF.night, at(23, 30), 60), 1);
+  assert.equal(planNightFraction(TARIFF.night, at(4, 30), 60), 0.5);
+
+  const tripStart = { ...TARIFF.night, policy: 'trip-start' as const };
+  assert.equal(planNightFraction(tripStart, at(21, 59), 120), 0);
+  assert.equal(planNightFraction(tripStart, at(23, 59), 120), 1);
+});
+
+test('meters the night share from the distance driven at night', () => {
+  assert.equal(meteredNightFraction(TARIFF.night, at(23), 10, 4, at(1)), 0.4);
+  // No distance yet, so it goes by the time now
+  assert.equal(meteredNightFraction(TARIFF.night, at(21), 0, 0, at(0, 30)), 1);
+
+  const tripStart = { ...TARIFF.night, policy: 'trip-start' as const };
+  assert.equal(meteredNightFraction(tripStart, at(23, 30), 10, 0, at(6)), 1);
+  assert.equal(meteredNightFraction(tripStart, at(21), 10, 10, at(23)), 0);
+});
+
+test('accepts the built-in and test tariffs', () => {
+  assert.equal(validateTariff(DEFAULT_TARIFF), null);
+  assert.equal(validateTariff(TARIFF), null);
+});
+
+test('rejects a fare setting left empty', () => {
+  assert.equal(validateTariff({ ...TARIFF, minimumFare: NaN }), 'Every fare setting needs a number');
+  assert.equal(
+    validateTariff({ ...TARIFF, slabs: [{ upToKm: NaN, ratePerKm: 15 }, { upToKm: null, ratePerKm: 20 }] }),
+    'Every fare setting needs a number'
+  );
+});
+
+test('rejects slabs that do not keep going further', () => {
+  const slabs = [
+    { upToKm: 5, ratePerKm: 15 },
+    { upToKm: 4, ratePerKm: 20 },
+    { upToKm: null, ratePerKm: 25 },
+  ];
+  assert.equal(validateTariff({ ...TARIFF, slabs }), 'Each slab must end further than the one before it');
+  assert.equal(
+    validateTariff({ ...TARIFF, slabs: [{ upToKm: 1.5, ratePerKm: 15 }, { upToKm: null, ratePerKm: 20 }] }),
+    'Each slab must end further than the one before it'
+  );
+});
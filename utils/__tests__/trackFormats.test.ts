@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrackPoint } from '@/utils/tripHistory';
+import { parseGeoJson, parseGpx, parseTrack, toGeoJson, toGpx } from '@/utils/trackFormats';
+
+const TRACK: TrackPoint[] = [
+  { latitude: 9.9312, longitude: 76.2673, timestamp: Date.UTC(2026, 0, 15, 8, 0, 0), accuracy: 6, status: 'held' },
+  { latitude: 9.9321, longitude: 76.2681, timestamp: Date.UTC(2026, 0, 15, 8, 0, 5), accuracy: 120, status: 'low-accuracy' },
+  { latitude: 9.9330, longitude: 76.2690, timestamp: Date.UTC(2026, 0, 15, 8, 0, 10), accuracy: null, status: 'counted' },
+];
+
+const gpxPoint = (attributes: string, time: string) => `<trkpt ${attributes}><time>${time}</time></trkpt>`;
+
+test('reads back a GPX export', () => {
+  assert.deepEqual(parseGpx(toGpx(TRACK, 'Fort Kochi & back')), TRACK);
+});
+
+test('reads back a GeoJSON export', () => {
+  assert.deepEqual(parseGeoJson(toGeoJson(TRACK)), TRACK);
+});
+
+test('picks the parser from the content', () => {
+  assert.deepEqual(parseTrack(`  ${toGpx(TRACK)}`), TRACK);
+  assert.deepEqual(parseTrack(toGeoJson(TRACK)), TRACK);
+});
+
+test('skips GPX points without a latitude or longitude', () => {
+  const xml = `<gpx><trk><trkseg>${[
+    gpxPoint('lat="9.93" lon="76.26"', '2026-01-15T08:00:00Z'),
+    gpxPoint('lon="76.27"', '2026-01-15T08:00:05Z'),
+    gpxPoint('lat="9.94"', '2026-01-15T08:00:10Z'),
+    gpxPoint('lat="north" lon="76.28"', '2026-01-15T08:00:15Z'),
+  ].join('')}</trkseg></trk></gpx>`;
+  assert.deepEqual(parseGpx(xml).map(point => [point.latitude, point.longitude]), [[9.93, 76.26]]);
+});
+
+test('rejects GPX with no usable points or no times', () => {
+  assert.throws(() => parseGpx('<gpx><trk><trkseg></trkseg></trk></gpx>'), /does not contain any track points/);
+  assert.throws(
+    () => parseGpx('<gpx><trkpt lat="9.93" lon="76.26"></trkpt></gpx>'),
+    /needs a timestamp/
+  );
+});
+
+test('rejects GeoJSON without a LineString', () => {
+  const point = { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [76.26, 9.93] } };
+  assert.throws(() => parseGeoJson(JSON.stringify(point)), /no LineString track/);
+  assert.throws(
+    () => parseGeoJson(JSON.stringify({ type: 'FeatureCollection', features: [point, null, 'track'] })),
+    /no LineString track/
+  );
+  assert.throws(() => parseGeoJson('{ "type": '), /not valid GeoJSON/);
+});
+
+test('skips GeoJSON coordinates that are not numbers', () => {
+  const line = {
+    type: 'Feature',
+    properties: { times: ['2026-01-15T08:00:00Z', '2026-01-15T08:00:05Z', '2026-01-15T08:00:10Z'] },
+    geometry: { type: 'LineString', coordinates: [[76.26, 9.93], ['76.27', 9.94], null] },
+  };
+  const points = parseGeoJson(JSON.stringify(line));
+  assert.deepEqual(points.map(point => [point.latitude, point.longitude, point.accuracy]), [[9.93, 76.26, null]]);
+});
@@ -0,0 +1,29 @@
+import { Alert, Platform } from 'react-native';
+
+interface ConfirmOptions {
+  confirmText?: string;
+  destructive?: boolean;
+}
+
+// window.confirm only exists on web, and Alert.alert's buttons do nothing there
+export const confirmAsync = (
+  title: string,
+  message: string,
+  { confirmText = 'OK', destructive = false }: ConfirmOptions = {}
+): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(message));
+  }
+
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: destructive ? 'destructive' : 'default', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
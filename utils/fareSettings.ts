@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Tariff, DEFAULT_TARIFF, normalizeTariff } from '@/utils/tariff';
+import { asNumber, asRecord } from '@/utils/narrow';
+
+const STORAGE_KEY = 'fareSettings';
+
+// Bump when the stored shape changes, and teach migrateFareSettings to read the old one
+export const FARE_SETTINGS_VERSION = 2;
+
+// Version 0 was { baseFare, baseDistance, ratePerKm }, version 1 a bare Tariff
+interface StoredFareSettings {
+  version: number;
+  tariff: Tariff;
+}
+
+// The one copy of the tariff every screen reads. Saving updates it and tells the subscribers,
+// so nothing needs to poll storage.
+let current: Tariff = DEFAULT_TARIFF;
+let loading: Promise<Tariff> | null = null;
+let revision = 0; // Bumped on every save, so a slow first load can't overwrite a newer save
+const listeners = new Set<() => void>();
+
+const setCurrent = (tariff: Tariff) => {
+  current = tariff;
+  listeners.forEach(listener => listener());
+};
+
+export const migrateFareSettings = (raw: unknown): { tariff: Tariff; version: number } => {
+  const value = asRecord(raw);
+  const version = asNumber(value.version);
+  if (version !== null) {
+    return { tariff: normalizeTariff(value.tariff), version };
+  }
+  // normalizeTariff reads both older shapes
+  return { tariff: normalizeTariff(raw), version: Array.isArray(value.slabs) ? 1 : 0 };
+};
+
+const writeFareSettings = async (tariff: Tariff): Promise<void> => {
+  const stored: StoredFareSettings = { version: FARE_SETTINGS_VERSION, tariff };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+const readFareSettings = async (): Promise<{ tariff: Tariff; isOutdated: boolean }> => {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const { tariff, version } = migrateFareSettings(JSON.parse(saved));
+      return { tariff, isOutdated: version < FARE_SETTINGS_VERSION };
+    }
+  } catch (error) {
+    console.error('Error loading fare settings:', error);
+  }
+  return { tariff: DEFAULT_TARIFF, isOutdated: false };
+};
+
+export const getFareSettings = (): Tariff => current;
+
+// Storage is only read once, later calls get the same result
+export const loadFareSettings = (): Promise<Tariff> => {
+  if (!loading) {
+    const loadRevision = revision;
+    loading = readFareSettings().then(({ tariff, isOutdated }) => {
+      if (revision !== loadRevision) return current;
+      setCurrent(tariff);
+      // Past the revision check, so upgrading the stored shape can't overwrite a newer save
+      if (isOutdated) {
+        writeFareSettings(tariff).catch(error => console.error('Error upgrading fare settings:', error));
+      }
+      return tariff;
+    });
+  }
+  return loading;
+};
+
+export const saveFareSettings = async (tariff: Tariff): Promise<void> => {
+  await writeFareSettings(tariff);
+  revision += 1;
+  loading = Promise.resolve(tariff);
+  setCurrent(tariff);
+};
+
+export const subscribeToFareSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,24 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+export interface PickedFile {
+  name: string;
+  contents: string;
+}
+
+// Resolves to null when the user cancels. Android reports most GPX files as
+// application/octet-stream, so extensions only narrow the picker in the browser.
+export const pickTextFile = async (extensions: string[]): Promise<PickedFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: Platform.OS === 'web' ? extensions : '*/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const contents = asset.file
+    ? await asset.file.text()
+    : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, contents };
+};
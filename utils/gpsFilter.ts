@@ -0,0 +1,169 @@
+// GPS noise filtering for the meter. Pure functions only, so recorded tracks can be
+// replayed through measureTrack() outside the app.
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // Metres, null when the device doesn't report it
+  timestamp: number; // Epoch ms
+}
+
+export interface GpsFilterOptions {
+  maxAccuracyMeters: number; // Fixes less accurate than this are dropped
+  maxSpeedKmh: number; // Anything faster than this between fixes is a jump, not driving
+  minStepMeters: number; // Movement below this is treated as standing still
+  accuracyStepFactor: number; // Also hold movement smaller than accuracy * factor
+  processNoiseMetersPerSecond: number; // How far we expect the auto to wander per second (Kalman Q)
+  maxConsecutiveRejections: number; // After this many rejected fixes in a row, trust the new position
+  maxGapSeconds: number; // After a longer gap between fixes, charge the straight line instead of smoothing
+}
+
+// counted: distance was added, held: smoothed but too small to count yet,
+// low-accuracy / implausible-speed: ignored entirely
+export type FixStatus = 'counted' | 'held' | 'low-accuracy' | 'implausible-speed';
+
+const FIX_STATUSES: FixStatus[] = ['counted', 'held', 'low-accuracy', 'implausible-speed'];
+
+export const toFixStatus = (value: unknown): FixStatus | undefined =>
+  FIX_STATUSES.find(status => status === value);
+
+export interface FilterResult {
+  status: FixStatus;
+  latitude: number; // Smoothed position, or the raw fix when rejected
+  longitude: number;
+  distanceKm: number; // Distance to add to the trip for this fix
+}
+
+export const DEFAULT_GPS_FILTER_OPTIONS: GpsFilterOptions = {
+  maxAccuracyMeters: 50,
+  maxSpeedKmh: 80,
+  minStepMeters: 8,
+  accuracyStepFactor: 0.5,
+  processNoiseMetersPerSecond: 3,
+  maxConsecutiveRejections: 3,
+  maxGapSeconds: 30,
+};
+
+// Used when the device doesn't report an accuracy
+const FALLBACK_ACCURACY_METERS = 20;
+
+export const haversineKm = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const R = 6371; // Radius of the Earth in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+export function createGpsFilter(overrides: Partial<GpsFilterOptions> = {}) {
+  const options = { ...DEFAULT_GPS_FILTER_OPTIONS, ...overrides };
+
+  // Kalman state: smoothed position and its variance in m², -1 until the first fix
+  let latitude = 0;
+  let longitude = 0;
+  let variance = -1;
+  let lastFilterTimestamp = 0;
+
+  // Last position distance was measured from
+  let anchor: { latitude: number; longitude: number; timestamp: number } | null = null;
+  let consecutiveRejections = 0;
+
+  const restartAt = (fix: GpsFix, accuracy: number) => {
+    latitude = fix.latitude;
+    longitude = fix.longitude;
+    variance = accuracy * accuracy;
+    lastFilterTimestamp = fix.timestamp;
+    anchor = { latitude, longitude, timestamp: fix.timestamp };
+    consecutiveRejections = 0;
+  };
+
+  const smooth = (fix: GpsFix, accuracy: number) => {
+    const seconds = (fix.timestamp - lastFilterTimestamp) / 1000;
+    if (seconds > 0) {
+      variance += seconds * options.processNoiseMetersPerSecond * options.processNoiseMetersPerSecond;
+      lastFilterTimestamp = fix.timestamp;
+    }
+    const gain = variance / (variance + accuracy * accuracy);
+    latitude += gain * (fix.latitude - latitude);
+    longitude += gain * (fix.longitude - longitude);
+    variance = (1 - gain) * variance;
+  };
+
+  const reject = (fix: GpsFix, status: FixStatus): FilterResult => {
+    consecutiveRejections += 1;
+    return { status, latitude: fix.latitude, longitude: fix.longitude, distanceKm: 0 };
+  };
+
+  const process = (fix: GpsFix): FilterResult => {
+    const accuracy = fix.accuracy ?? FALLBACK_ACCURACY_METERS;
+
+    if (accuracy > options.maxAccuracyMeters) {
+      return reject(fix, 'low-accuracy');
+    }
+
+    if (variance < 0 || !anchor) {
+      restartAt(fix, accuracy);
+      return { status: 'held', latitude, longitude, distanceKm: 0 };
+    }
+
+    // Speed plausibility on the raw fix, before it can pull the smoothed position
+    const hours = (fix.timestamp - anchor.timestamp) / 3600000;
+    const rawStepKm = haversineKm(anchor.latitude, anchor.longitude, fix.latitude, fix.longitude);
+    if (hours > 0 && rawStepKm / hours > options.maxSpeedKmh) {
+      if (consecutiveRejections + 1 >= options.maxConsecutiveRejections) {
+        // The anchor itself was probably the bad fix, start again from here without charging the jump
+        restartAt(fix, accuracy);
+        return { status: 'held', latitude, longitude, distanceKm: 0 };
+      }
+      return reject(fix, 'implausible-speed');
+    }
+
+    consecutiveRejections = 0;
+    const minStepKm = Math.max(options.minStepMeters, accuracy * options.accuracyStepFactor) / 1000;
+
+    // After an underpass or the phone sleeping, smoothing would leave the position far behind
+    // and the next fixes would look like jumps
+    if (fix.timestamp - lastFilterTimestamp > options.maxGapSeconds * 1000 && rawStepKm >= minStepKm) {
+      restartAt(fix, accuracy);
+      return { status: 'counted', latitude, longitude, distanceKm: rawStepKm };
+    }
+
+    smooth(fix, accuracy);
+
+    const stepKm = haversineKm(anchor.latitude, anchor.longitude, latitude, longitude);
+    if (stepKm < minStepKm) {
+      return { status: 'held', latitude, longitude, distanceKm: 0 };
+    }
+
+    anchor = { latitude, longitude, timestamp: fix.timestamp };
+    return { status: 'counted', latitude, longitude, distanceKm: stepKm };
+  };
+
+  const reset = () => {
+    variance = -1;
+    lastFilterTimestamp = 0;
+    anchor = null;
+    consecutiveRejections = 0;
+  };
+
+  return { options, process, reset };
+}
+
+export type GpsFilter = ReturnType<typeof createGpsFilter>;
+
+// Runs a recorded track through a fresh filter and returns the distance the meter would charge
+export const measureTrack = (fixes: GpsFix[], overrides: Partial<GpsFilterOptions> = {}) => {
+  const filter = createGpsFilter(overrides);
+  const results = fixes.map(fix => filter.process(fix));
+  const distanceKm = results.reduce((sum, result) => sum + result.distanceKm, 0);
+  return { distanceKm, results };
+};
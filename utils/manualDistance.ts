@@ -0,0 +1,113 @@
+import { asNumber, asRecord, asString } from '@/utils/narrow';
+
+// Manual odometer mode, for when GPS can't be trusted: either the auto's own odometer readings
+// replace the GPS distance, or a correction is added to it. Inputs are kept as typed text.
+export type DistanceSource = 'gps' | 'odometer' | 'gps-corrected';
+
+export type ManualDistanceMode = 'odometer' | 'correction';
+
+export interface ManualDistanceEntry {
+  mode: ManualDistanceMode;
+  odometerStart: string;
+  odometerEnd: string;
+  correction: string; // Km added to the GPS distance, negative to take some off
+}
+
+// What replaced the GPS distance on a saved trip
+export type DistanceOverride =
+  | { source: 'odometer'; gpsDistanceKm: number; odometerStartKm: number; odometerEndKm: number }
+  | { source: 'gps-corrected'; gpsDistanceKm: number; correctionKm: number };
+
+export interface ResolvedDistance {
+  distanceKm: number;
+  source: DistanceSource;
+  override: DistanceOverride | null;
+  error: string | null; // Why the entry was ignored, the GPS distance is charged meanwhile
+}
+
+export const EMPTY_MANUAL_ENTRY: ManualDistanceEntry = {
+  mode: 'odometer',
+  odometerStart: '',
+  odometerEnd: '',
+  correction: '',
+};
+
+export const DISTANCE_SOURCE_LABELS: Record<DistanceSource, string> = {
+  gps: 'GPS',
+  odometer: 'Odometer',
+  'gps-corrected': 'GPS with correction',
+};
+
+const parseKm = (text: string): number | null => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+export const resolveDistance = (entry: ManualDistanceEntry | null, gpsDistanceKm: number): ResolvedDistance => {
+  const gps: ResolvedDistance = { distanceKm: gpsDistanceKm, source: 'gps', override: null, error: null };
+  if (!entry) return gps;
+
+  if (entry.mode === 'odometer') {
+    const odometerStartKm = parseKm(entry.odometerStart);
+    const odometerEndKm = parseKm(entry.odometerEnd);
+    // Until both readings are in, the ride is still charged by GPS
+    if (odometerStartKm === null || odometerEndKm === null) return gps;
+    if (odometerEndKm < odometerStartKm) {
+      return { ...gps, error: 'The end reading is lower than the start reading' };
+    }
+    return {
+      distanceKm: odometerEndKm - odometerStartKm,
+      source: 'odometer',
+      override: { source: 'odometer', gpsDistanceKm, odometerStartKm, odometerEndKm },
+      error: null,
+    };
+  }
+
+  const correctionKm = parseKm(entry.correction);
+  if (correctionKm === null || correctionKm === 0) return gps;
+  if (gpsDistanceKm + correctionKm < 0) {
+    return { ...gps, error: `The correction can't take off more than the ${gpsDistanceKm.toFixed(2)} km GPS measured` };
+  }
+  return {
+    distanceKm: gpsDistanceKm + correctionKm,
+    source: 'gps-corrected',
+    override: { source: 'gps-corrected', gpsDistanceKm, correctionKm },
+    error: null,
+  };
+};
+
+// e.g. "Odometer 12345.0 → 12349.2 km (GPS 3.90 km)"
+export const describeDistanceOverride = (override: DistanceOverride): string => {
+  const gps = `GPS ${override.gpsDistanceKm.toFixed(2)} km`;
+  if (override.source === 'odometer') {
+    return `Odometer ${override.odometerStartKm.toFixed(1)} → ${override.odometerEndKm.toFixed(1)} km (${gps})`;
+  }
+  const sign = override.correctionKm > 0 ? '+' : '−';
+  return `${gps} ${sign} ${Math.abs(override.correctionKm).toFixed(2)} km correction`;
+};
+
+export const normalizeManualEntry = (raw: unknown): ManualDistanceEntry | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = asRecord(raw);
+  return {
+    mode: entry.mode === 'correction' ? 'correction' : 'odometer',
+    odometerStart: asString(entry.odometerStart) ?? '',
+    odometerEnd: asString(entry.odometerEnd) ?? '',
+    correction: asString(entry.correction) ?? '',
+  };
+};
+
+export const normalizeDistanceOverride = (raw: unknown): DistanceOverride | undefined => {
+  const value = asRecord(raw);
+  const gpsDistanceKm = asNumber(value.gpsDistanceKm);
+  if (gpsDistanceKm === null) return undefined;
+  if (value.source === 'odometer') {
+    const odometerStartKm = asNumber(value.odometerStartKm);
+    const odometerEndKm = asNumber(value.odometerEndKm);
+    if (odometerStartKm === null || odometerEndKm === null) return undefined;
+    return { source: 'odometer', gpsDistanceKm, odometerStartKm, odometerEndKm };
+  }
+  const correctionKm = asNumber(value.correctionKm);
+  if (value.source !== 'gps-corrected' || correctionKm === null) return undefined;
+  return { source: 'gps-corrected', gpsDistanceKm, correctionKm };
+};
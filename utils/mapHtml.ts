@@ -0,0 +1,131 @@
+import { Coordinates } from '@/services/places';
+import { asNumber, asRecord } from '@/utils/narrow';
+
+// Builds a self-contained Leaflet page for LeafletMap. The same HTML runs in a WebView
+// on native and an iframe on web, so both platforms draw identical maps. After the first
+// load, new data is drawn by calling window.renderMap(data) instead of reloading the page.
+// Taps on the map are posted back as { type: 'press', latitude, longitude } JSON messages.
+
+export interface MapMarker {
+  coordinates: Coordinates;
+  color: string;
+  label?: string;
+}
+
+export interface MapPolyline {
+  points: Coordinates[];
+  color: string;
+  dashed?: boolean; // For straight-line fallbacks that aren't a real road path
+}
+
+// Small unlabelled circles, e.g. individual GPS fixes
+export interface MapDot {
+  coordinates: Coordinates;
+  color: string;
+}
+
+export interface MapData {
+  markers: MapMarker[];
+  polylines: MapPolyline[];
+  dots?: MapDot[];
+  follow?: Coordinates; // Keep this position centred instead of fitting everything in view
+  keepView?: boolean; // Leave the view where the user panned it after the first render
+}
+
+export interface MapPressMessage {
+  type: 'press';
+  latitude: number;
+  longitude: number;
+}
+
+export const parseMapMessage = (raw: unknown): MapPressMessage | null => {
+  let message: Record<string, unknown>;
+  try {
+    message = asRecord(typeof raw === 'string' ? JSON.parse(raw) : raw);
+  } catch {
+    return null;
+  }
+  const latitude = asNumber(message.latitude);
+  const longitude = asNumber(message.longitude);
+  if (message.type !== 'press' || latitude === null || longitude === null) return null;
+  return { type: 'press', latitude, longitude };
+};
+
+// The page is loaded from a string on native, so this gives it an origin. OpenStreetMap's tile
+// policy asks for a Referer naming the app, which a page without one doesn't send.
+export const MAP_BASE_URL = 'https://ayeauto.live/';
+
+const LEAFLET_VERSION = '1.9.4';
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const FOLLOW_ZOOM = 17;
+
+// JSON is embedded in a <script>, so "<" must not be able to close the tag
+export const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+export const buildMapHtml = (data: MapData): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1" />
+<link rel="stylesheet" href="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.css" />
+<script src="https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist/leaflet.js"></script>
+<style>
+  html, body, #map { height: 100%; margin: 0; padding: 0; }
+  .pin { width: 16px; height: 16px; border-radius: 8px; border: 3px solid #FFFFFF; box-shadow: 0 1px 4px rgba(0,0,0,0.4); }
+</style>
+</head>
+<body>
+<div id="map"></div>
+<script>
+  var map = L.map('map', { zoomControl: false, attributionControl: true });
+  L.tileLayer('${TILE_URL}', { maxZoom: 19, attribution: '${ATTRIBUTION}' }).addTo(map);
+  var layers = L.layerGroup().addTo(map);
+  var hasView = false;
+
+  function toLatLng(p) { return [p.latitude, p.longitude]; }
+
+  function post(message) {
+    var json = JSON.stringify(message);
+    if (window.ReactNativeWebView) window.ReactNativeWebView.postMessage(json);
+    else if (window.parent !== window) window.parent.postMessage(json, '*');
+  }
+  map.on('click', function (e) { post({ type: 'press', latitude: e.latlng.lat, longitude: e.latlng.lng }); });
+
+  window.renderMap = function (data) {
+    layers.clearLayers();
+    var bounds = [];
+
+    data.polylines.forEach(function (line) {
+      var latLngs = line.points.map(toLatLng);
+      L.polyline(latLngs, { color: line.color, weight: 5, opacity: 0.85, dashArray: line.dashed ? '8 8' : null }).addTo(layers);
+      bounds = bounds.concat(latLngs);
+    });
+    (data.dots || []).forEach(function (dot) {
+      L.circleMarker(toLatLng(dot.coordinates), { radius: 4, color: dot.color, weight: 1, fillOpacity: 0.8 }).addTo(layers);
+    });
+    data.markers.forEach(function (marker) {
+      var icon = L.divIcon({ className: '', html: '<div class="pin" style="background:' + marker.color + '"></div>', iconSize: [22, 22], iconAnchor: [11, 11] });
+      var leafletMarker = L.marker(toLatLng(marker.coordinates), { icon: icon }).addTo(layers);
+      if (marker.label) leafletMarker.bindTooltip(marker.label);
+      bounds.push(toLatLng(marker.coordinates));
+    });
+
+    if (hasView && data.keepView) {
+      // Leave it where the user put it
+    } else if (data.follow) {
+      map.setView(toLatLng(data.follow), hasView ? Math.max(map.getZoom(), ${FOLLOW_ZOOM - 2}) : ${FOLLOW_ZOOM});
+    } else if (bounds.length > 1) {
+      map.fitBounds(bounds, { padding: [32, 32] });
+    } else if (bounds.length === 1) {
+      map.setView(bounds[0], 15);
+    } else if (!hasView) {
+      map.setView([10.85, 76.27], 7); // Kerala
+    }
+    hasView = true;
+  };
+
+  window.renderMap(${toScriptJson(data)});
+</script>
+</body>
+</html>`;
@@ -0,0 +1,79 @@
+import { asArray, asNumber, asRecord } from '@/utils/narrow';
+
+// A metered ride is a run of segments. While running, distance and slow driving are charged as
+// usual; paused charges nothing (e.g. the passenger ran into a shop and the driver wasn't asked
+// to wait); waiting charges all of its time as waiting, however the auto moves.
+export type SegmentMode = 'running' | 'paused' | 'waiting';
+
+export interface MeterSegment {
+  mode: SegmentMode;
+  startedAt: number; // Epoch ms
+  endedAt: number | null; // Null for the segment in progress
+  distanceKm: number; // Charged during this segment, filled in when it ends
+  waitingSeconds: number;
+}
+
+// Ride totals the open segment is measured against
+export interface SegmentTotals {
+  distanceKm: number;
+  waitingSeconds: number;
+}
+
+export const SEGMENT_LABELS: Record<SegmentMode, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  waiting: 'Waiting',
+};
+
+export const startSegments = (startedAt: number): MeterSegment[] => [
+  { mode: 'running', startedAt, endedAt: null, distanceKm: 0, waitingSeconds: 0 },
+];
+
+export const currentSegmentMode = (segments: MeterSegment[]): SegmentMode =>
+  segments[segments.length - 1]?.mode ?? 'running';
+
+// Fills in the open segment with whatever the ride gained since the earlier segments ended
+export const closeSegments = (segments: MeterSegment[], totals: SegmentTotals, now: number): MeterSegment[] => {
+  const closed = segments.filter(segment => segment.endedAt !== null);
+  const open = segments.find(segment => segment.endedAt === null);
+  if (!open) return segments;
+
+  const sum = (key: keyof SegmentTotals) => closed.reduce((total, segment) => total + segment[key], 0);
+  return [
+    ...closed,
+    {
+      ...open,
+      endedAt: now,
+      distanceKm: Math.max(0, totals.distanceKm - sum('distanceKm')),
+      waitingSeconds: Math.max(0, totals.waitingSeconds - sum('waitingSeconds')),
+    },
+  ];
+};
+
+export const switchSegment = (
+  segments: MeterSegment[],
+  mode: SegmentMode,
+  totals: SegmentTotals,
+  now: number
+): MeterSegment[] => [
+  ...closeSegments(segments, totals, now),
+  { mode, startedAt: now, endedAt: null, distanceKm: 0, waitingSeconds: 0 },
+];
+
+export const segmentSeconds = (segment: MeterSegment, now: number): number =>
+  Math.max(0, ((segment.endedAt ?? now) - segment.startedAt) / 1000);
+
+export const normalizeSegments = (raw: unknown, startedAt: number): MeterSegment[] => {
+  const segments = asArray(raw);
+  if (segments.length === 0) return startSegments(startedAt);
+  return segments.map((entry) => {
+    const segment = asRecord(entry);
+    return {
+      mode: segment.mode === 'paused' || segment.mode === 'waiting' ? segment.mode : 'running',
+      startedAt: asNumber(segment.startedAt) || startedAt,
+      endedAt: asNumber(segment.endedAt),
+      distanceKm: asNumber(segment.distanceKm) ?? 0,
+      waitingSeconds: asNumber(segment.waitingSeconds) ?? 0,
+    };
+  });
+};
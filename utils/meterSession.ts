@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TrackPoint, normalizeTrack, normalizeTrackPoint } from '@/utils/tripHistory';
+import { GpsFix, createGpsFilter, haversineKm } from '@/utils/gpsFilter';
+import { MeterSegment, currentSegmentMode, normalizeSegments } from '@/utils/meterSegments';
+import { ManualDistanceEntry, normalizeManualEntry, resolveDistance } from '@/utils/manualDistance';
+import { Tariff, calculateFare, isNightTime, meteredNightFraction, normalizeTariff } from '@/utils/tariff';
+import { asNumber, asRecord } from '@/utils/narrow';
+
+const STORAGE_KEY = 'activeMeterSession';
+
+// The running meter, written to storage as the ride goes so a reload, a locked phone or a
+// killed app can pick it up again. Cleared once the ride is stopped and saved to history.
+export interface MeterSession {
+  startedAt: number; // Epoch ms, elapsed time is always measured from this
+  distanceKm: number; // Charged distance so far
+  nightDistanceKm: number; // Part of distanceKm driven in the night window
+  waitingSeconds: number;
+  lastFix: TrackPoint | null; // Last trusted fix, distance after a restart is measured from here
+  track: TrackPoint[];
+  tariff: Tariff; // Snapshot taken at the start, the ride keeps this price if Settings change
+  segments: MeterSegment[]; // The last one is in progress, so a paused ride comes back paused
+  manualEntry: ManualDistanceEntry | null; // Odometer readings or correction typed so far, if manual mode is on
+  updatedAt: number;
+}
+
+export const loadMeterSession = async (): Promise<MeterSession | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const session = asRecord(JSON.parse(saved) as unknown);
+      const startedAt = asNumber(session.startedAt);
+      if (startedAt === null) return null;
+      return {
+        startedAt,
+        distanceKm: asNumber(session.distanceKm) ?? 0,
+        nightDistanceKm: asNumber(session.nightDistanceKm) ?? 0,
+        waitingSeconds: asNumber(session.waitingSeconds) ?? 0,
+        lastFix: session.lastFix ? normalizeTrackPoint(session.lastFix) : null,
+        track: normalizeTrack(session.track),
+        tariff: normalizeTariff(session.tariff),
+        segments: normalizeSegments(session.segments, startedAt),
+        manualEntry: normalizeManualEntry(session.manualEntry),
+        updatedAt: asNumber(session.updatedAt) ?? startedAt,
+      };
+    }
+  } catch (error) {
+    console.error('Error loading meter session:', error);
+  }
+  return null;
+};
+
+export const saveMeterSession = async (session: MeterSession): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearMeterSession = async (): Promise<void> => {
+  await AsyncStorage.removeItem(STORAGE_KEY);
+};
+
+const toGpsFix = (point: TrackPoint): GpsFix => ({
+  latitude: point.latitude,
+  longitude: point.longitude,
+  accuracy: point.accuracy,
+  timestamp: point.timestamp,
+});
+
+// Adds fixes that arrived while no meter screen was running, e.g. from the background location
+// task after the app was closed. Uses the same noise filter as the live meter, and counts the time
+// between two fixes as waiting when the auto covered it slower than the tariff's threshold.
+export const advanceMeterSession = (session: MeterSession, fixes: GpsFix[]): MeterSession => {
+  if (currentSegmentMode(session.segments) !== 'running') return session;
+
+  const filter = createGpsFilter();
+  if (session.lastFix) {
+    filter.process(toGpsFix(session.lastFix));
+  }
+
+  let { distanceKm, nightDistanceKm, waitingSeconds, lastFix } = session;
+  const track = [...session.track];
+  fixes.forEach(fix => {
+    const result = filter.process(fix);
+    const point: TrackPoint = { ...fix, status: result.status };
+    track.push(point);
+    if (result.status === 'low-accuracy' || result.status === 'implausible-speed') return;
+
+    if (lastFix && fix.timestamp > lastFix.timestamp) {
+      const hours = (fix.timestamp - lastFix.timestamp) / 3600000;
+      const speedKmh = haversineKm(lastFix.latitude, lastFix.longitude, fix.latitude, fix.longitude) / hours;
+      if (speedKmh < session.tariff.waiting.speedThresholdKmh) {
+        waitingSeconds += hours * 3600;
+      }
+    }
+    distanceKm += result.distanceKm;
+    if (isNightTime(session.tariff.night, new Date(fix.timestamp))) {
+      nightDistanceKm += result.distanceKm;
+    }
+    lastFix = point;
+  });
+
+  return { ...session, distanceKm, nightDistanceKm, waitingSeconds, lastFix, track, updatedAt: Date.now() };
+};
+
+// Charges the odometer or corrected distance when manual mode is on, like the meter screen
+export const meterSessionFare = (session: MeterSession): { fare: number; distanceKm: number } => {
+  const { distanceKm } = resolveDistance(session.manualEntry, session.distanceKm);
+  const fare = calculateFare(session.tariff, {
+    distanceKm,
+    nightFraction: meteredNightFraction(
+      session.tariff.night,
+      new Date(session.startedAt),
+      distanceKm,
+      session.nightDistanceKm
+    ),
+    waitingMinutes: session.waitingSeconds / 60,
+  });
+  return { fare, distanceKm };
+};
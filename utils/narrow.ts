@@ -0,0 +1,11 @@
+// Helpers for reading back values from storage or a server, where nothing about the shape is
+// guaranteed. Anything of the wrong type reads as empty.
+export const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+export const asString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
@@ -0,0 +1,118 @@
+import { FareBreakdown, Tariff, nightSurchargePercent } from '@/utils/tariff';
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+}
+
+export interface Receipt {
+  kind: 'meter' | 'estimate';
+  issuedAt: number; // Epoch ms
+  tariffName: string;
+  distanceKm: number;
+  durationSeconds: number;
+  isNight: boolean;
+  source: string | null;
+  destination: string | null;
+  stops: string[]; // Intermediate stops, in order
+  lines: ReceiptLine[];
+  total: number;
+}
+
+interface ReceiptInput {
+  fare: number;
+  distance: number;
+  elapsedTime: number; // Seconds
+  isNight: boolean;
+  breakdown: FareBreakdown;
+  tariff: Tariff;
+  source?: string | null;
+  destination?: string | null;
+  stops?: string[];
+}
+
+export const formatReceiptDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Turns the engine breakdown into the rows printed on the receipt
+const buildReceiptLines = (breakdown: FareBreakdown, tariff: Tariff): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [
+    { label: `Minimum fare (first ${tariff.baseDistance} km)`, amount: breakdown.minimumFare },
+  ];
+
+  for (const charge of breakdown.slabCharges) {
+    lines.push({
+      label: `${(charge.toKm - charge.fromKm).toFixed(2)} km @ ₹${charge.ratePerKm}/km`,
+      amount: charge.amount,
+    });
+  }
+  if (breakdown.waitingCharge > 0) {
+    lines.push({
+      label: `Waiting (${breakdown.chargeableWaitingMinutes.toFixed(1)} min)`,
+      amount: breakdown.waitingCharge,
+    });
+  }
+  if (breakdown.nightSurcharge > 0) {
+    lines.push({ label: `Night surcharge (${nightSurchargePercent(tariff)}%)`, amount: breakdown.nightSurcharge });
+  }
+  if (Math.abs(breakdown.roundingAdjustment) >= 0.01) {
+    lines.push({ label: 'Rounding', amount: breakdown.roundingAdjustment });
+  }
+  return lines;
+};
+
+const createReceipt = (kind: Receipt['kind'], input: ReceiptInput): Receipt => ({
+  kind,
+  issuedAt: Date.now(),
+  tariffName: input.tariff.name,
+  distanceKm: input.distance,
+  durationSeconds: input.elapsedTime,
+  isNight: input.isNight,
+  source: input.source ?? null,
+  destination: input.destination ?? null,
+  stops: input.stops ?? [],
+  lines: buildReceiptLines(input.breakdown, input.tariff),
+  total: input.fare,
+});
+
+export const createMeterReceipt = (input: ReceiptInput): Receipt => createReceipt('meter', input);
+
+export const createEstimateReceipt = (input: ReceiptInput): Receipt => createReceipt('estimate', input);
+
+// e.g. "Home → School → Office", null when the receipt has no places
+export const formatReceiptRoute = (receipt: Receipt): string | null => {
+  if (!receipt.source && !receipt.destination) return null;
+  return [receipt.source ?? '—', ...receipt.stops, receipt.destination ?? '—'].join(' → ');
+};
+
+// Plain text version for WhatsApp and the share sheet. *bold* is WhatsApp markup.
+export const formatReceiptText = (receipt: Receipt): string => {
+  const title = receipt.kind === 'meter' ? 'Aye Auto – Ride Receipt' : 'Aye Auto – Fare Estimate';
+  const issued = new Date(receipt.issuedAt).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const rows = [`*${title}*`, issued];
+  const route = formatReceiptRoute(receipt);
+  if (route) {
+    rows.push(route);
+  }
+  rows.push(
+    '',
+    `Distance: ${receipt.distanceKm.toFixed(2)} km`,
+    `${receipt.kind === 'meter' ? 'Time' : 'Est. time'}: ${formatReceiptDuration(receipt.durationSeconds)}`,
+    `Tariff: ${receipt.tariffName}${receipt.isNight ? ' (night rate)' : ''}`,
+    '',
+    ...receipt.lines.map(line => `${line.label}: ₹${line.amount.toFixed(2)}`),
+    '',
+    `*Total: ₹${receipt.total.toFixed(2)}*`
+  );
+  return rows.join('\n');
+};
@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlaceSuggestion } from '@/services/places';
+import { asArray, asNumber, asRecord, asString } from '@/utils/narrow';
+
+const RECENT_STORAGE_KEY = 'recentPlaces';
+const SAVED_STORAGE_KEY = 'savedPlaces';
+const MAX_RECENT_PLACES = 10;
+
+// A place picked in PlaceAutocomplete, kept whole so it can be reused without going online
+export interface RecentPlace extends PlaceSuggestion {
+  usedAt: number; // Epoch ms
+}
+
+// A user-named place such as Home or Work. Pinned places show up before anything is typed.
+export interface SavedPlace {
+  id: string;
+  name: string;
+  place: PlaceSuggestion;
+  pinned: boolean;
+  createdAt: number;
+}
+
+const createPlaceId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const normalizePlace = (raw: unknown): PlaceSuggestion | null => {
+  const value = asRecord(raw);
+  const place_id = asString(value.place_id);
+  const description = asString(value.description);
+  if (!place_id || description === null) return null;
+  const formatting = asRecord(value.structured_formatting);
+  const coordinates = asRecord(value.coordinates);
+  const latitude = asNumber(coordinates.latitude);
+  const longitude = asNumber(coordinates.longitude);
+  return {
+    place_id,
+    description,
+    structured_formatting: {
+      main_text: asString(formatting.main_text) ?? description,
+      secondary_text: asString(formatting.secondary_text) ?? '',
+    },
+    coordinates: latitude !== null && longitude !== null ? { latitude, longitude } : undefined,
+  };
+};
+
+const normalizeRecentPlace = (raw: unknown): RecentPlace | null => {
+  const place = normalizePlace(raw);
+  return place && { ...place, usedAt: asNumber(asRecord(raw).usedAt) ?? 0 };
+};
+
+const normalizeSavedPlace = (raw: unknown): SavedPlace | null => {
+  const value = asRecord(raw);
+  const id = asString(value.id);
+  const name = asString(value.name);
+  const place = normalizePlace(value.place);
+  if (!id || name === null || !place) return null;
+  return { id, name, place, pinned: value.pinned === true, createdAt: asNumber(value.createdAt) ?? 0 };
+};
+
+// Entries that don't read back as a place are dropped
+const readList = async <T>(key: string, normalize: (raw: unknown) => T | null): Promise<T[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(key);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      return asArray(parsed)
+        .map(normalize)
+        .filter((entry): entry is T => entry !== null);
+    }
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+  }
+  return [];
+};
+
+export const loadRecentPlaces = async (): Promise<RecentPlace[]> =>
+  (await readList(RECENT_STORAGE_KEY, normalizeRecentPlace)).sort((a, b) => b.usedAt - a.usedAt);
+
+// Moves the place to the top, matching on place_id so picking it again doesn't duplicate it
+export const addRecentPlace = async (place: PlaceSuggestion): Promise<RecentPlace[]> => {
+  const recent = await loadRecentPlaces();
+  const { place_id, description, structured_formatting, coordinates } = place;
+  const updated = [
+    { place_id, description, structured_formatting, coordinates, usedAt: Date.now() },
+    ...recent.filter(existing => existing.place_id !== place.place_id),
+  ].slice(0, MAX_RECENT_PLACES);
+  await AsyncStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+export const clearRecentPlaces = async (): Promise<void> => {
+  await AsyncStorage.removeItem(RECENT_STORAGE_KEY);
+};
+
+// Pinned first, then alphabetical
+export const sortSavedPlaces = (places: SavedPlace[]): SavedPlace[] =>
+  [...places].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name));
+
+export const loadSavedPlaces = async (): Promise<SavedPlace[]> =>
+  sortSavedPlaces(await readList(SAVED_STORAGE_KEY, normalizeSavedPlace));
+
+const writeSavedPlaces = async (places: SavedPlace[]): Promise<SavedPlace[]> => {
+  const sorted = sortSavedPlaces(places);
+  await AsyncStorage.setItem(SAVED_STORAGE_KEY, JSON.stringify(sorted));
+  return sorted;
+};
+
+export const validateSavedPlace = (name: string, place: PlaceSuggestion | null): string | null => {
+  if (!name.trim()) return 'Give the place a name, e.g. Home';
+  if (!place || !place.description.trim()) return 'Choose an address for the place';
+  return null;
+};
+
+// Adds a new place when id is missing, otherwise updates the existing one
+export const savePlace = async (
+  place: Omit<SavedPlace, 'id' | 'createdAt'> & { id?: string }
+): Promise<SavedPlace[]> => {
+  const places = await loadSavedPlaces();
+  const existing = places.find(saved => saved.id === place.id);
+  const record: SavedPlace = {
+    id: existing?.id ?? createPlaceId(),
+    createdAt: existing?.createdAt ?? Date.now(),
+    name: place.name.trim(),
+    place: place.place,
+    pinned: place.pinned,
+  };
+  return writeSavedPlaces([record, ...places.filter(saved => saved.id !== record.id)]);
+};
+
+export const deleteSavedPlace = async (id: string): Promise<SavedPlace[]> =>
+  writeSavedPlaces((await loadSavedPlaces()).filter(place => place.id !== id));
+
+// For an address typed by hand rather than picked, the route provider geocodes it later
+export const toTextSuggestion = (address: string): PlaceSuggestion => {
+  const description = address.trim();
+  const [first, ...rest] = description.split(', ');
+  return {
+    place_id: `text/${description.toLowerCase()}`,
+    description,
+    structured_formatting: { main_text: first, secondary_text: rest.join(', ') },
+  };
+};
+
+// Saved places appear in the dropdown with their name up front
+export const toSavedSuggestion = (saved: SavedPlace): PlaceSuggestion => ({
+  ...saved.place,
+  structured_formatting: { main_text: saved.name, secondary_text: saved.place.description },
+});
+
+// Offline matching on names and addresses, so these work without a network or API key
+export const searchLocalPlaces = (
+  saved: SavedPlace[],
+  recent: RecentPlace[],
+  query: string
+): { saved: SavedPlace[]; recent: RecentPlace[] } => {
+  const needle = query.trim().toLowerCase();
+  const savedIds = new Set(saved.map(place => place.place.place_id));
+  if (!needle) {
+    return {
+      saved: saved.filter(place => place.pinned),
+      recent: recent.filter(place => !savedIds.has(place.place_id)),
+    };
+  }
+  return {
+    saved: saved.filter(place =>
+      `${place.name} ${place.place.description}`.toLowerCase().includes(needle)
+    ),
+    recent: recent.filter(place =>
+      !savedIds.has(place.place_id) && place.description.toLowerCase().includes(needle)
+    ),
+  };
+};
@@ -0,0 +1,97 @@
+import { Platform, Share, Alert, Linking } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system';
+
+const isShareCancelled = (error: unknown) =>
+  error instanceof Error && (error.name === 'AbortError' || /cancel/i.test(error.message));
+
+const downloadOnWeb = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Web share API where the browser has it, otherwise the native share sheet
+export const shareText = async (text: string, title?: string) => {
+  try {
+    if (Platform.OS === 'web') {
+      if (typeof navigator !== 'undefined' && navigator.share) {
+        await navigator.share({ title, text });
+      } else if (typeof navigator !== 'undefined' && navigator.clipboard) {
+        await navigator.clipboard.writeText(text);
+        Alert.alert('Copied', 'Sharing is not supported in this browser, so the text was copied to the clipboard.');
+      }
+      return;
+    }
+    await Share.share({ message: text, title });
+  } catch (error) {
+    if (!isShareCancelled(error)) {
+      console.error('Error sharing text:', error);
+      throw error;
+    }
+  }
+};
+
+export const shareViaWhatsApp = async (text: string) => {
+  await Linking.openURL(`https://wa.me/?text=${encodeURIComponent(text)}`);
+};
+
+// uri is a data: URI on web and a local file URI on native
+export const shareImage = async (uri: string, filename: string) => {
+  try {
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(uri)).blob();
+      const file = new File([blob], filename, { type: blob.type || 'image/png' });
+      if (typeof navigator !== 'undefined' && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file] });
+      } else {
+        downloadOnWeb(uri, filename);
+      }
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Sharing Unavailable', 'Sharing files is not supported on this device.');
+      return;
+    }
+    await Sharing.shareAsync(uri, { mimeType: 'image/png', dialogTitle: filename });
+  } catch (error) {
+    if (!isShareCancelled(error)) {
+      console.error('Error sharing image:', error);
+      throw error;
+    }
+  }
+};
+
+// Shares a text file (track exports and the like). Browsers without file sharing get a download.
+export const shareFile = async (contents: string, filename: string, mimeType: string) => {
+  try {
+    if (Platform.OS === 'web') {
+      const file = new File([contents], filename, { type: mimeType });
+      if (typeof navigator !== 'undefined' && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file] });
+      } else {
+        const url = URL.createObjectURL(file);
+        downloadOnWeb(url, filename);
+        URL.revokeObjectURL(url);
+      }
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Sharing Unavailable', 'Sharing files is not supported on this device.');
+      return;
+    }
+    const uri = `${FileSystem.cacheDirectory}${filename}`;
+    await FileSystem.writeAsStringAsync(uri, contents);
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: filename });
+  } catch (error) {
+    if (!isShareCancelled(error)) {
+      console.error('Error sharing file:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,5 @@
+import { Platform, TextStyle } from 'react-native';
+
+// Hides the browser's focus ring around text inputs. react-native-web turns outlineWidth into
+// CSS; native inputs don't draw one.
+export const noFocusOutline: TextStyle = Platform.select({ web: { outlineWidth: 0 }, default: {} });
@@ -0,0 +1,368 @@
+// Tariff model and fare engine shared by the planner, meter and settings screens
+
+import { asArray, asRecord } from '@/utils/narrow';
+
+export interface DistanceSlab {
+  upToKm: number | null; // Slab ends at this trip distance, null = no upper limit
+  ratePerKm: number;
+}
+
+export interface WaitingCharge {
+  ratePerMinute: number;
+  freeMinutes: number; // Waiting minutes included before charging starts
+  speedThresholdKmh: number; // The meter counts waiting time while moving slower than this
+}
+
+// 'trip-start': the whole trip is priced by the time it started
+// 'split-by-time': only the distance driven inside the night window gets the surcharge
+export type NightPolicy = 'trip-start' | 'split-by-time';
+
+export interface NightRule {
+  multiplier: number; // 1.5 = 50% extra
+  startHour: number; // 24-hour clock, e.g. 22 for 10 PM
+  endHour: number; // Window may wrap past midnight
+  policy: NightPolicy;
+}
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  step: number; // Round to multiples of this many rupees
+}
+
+export interface Tariff {
+  name: string;
+  presetId?: string; // Set when the tariff was loaded from the built-in catalogue
+  minimumFare: number; // Charged for the first baseDistance km
+  baseDistance: number;
+  slabs: DistanceSlab[];
+  waiting: WaitingCharge;
+  night: NightRule;
+  rounding: RoundingRule;
+}
+
+export interface FareInput {
+  distanceKm: number;
+  nightFraction: number; // Share of the trip priced at the night rate, 0 to 1
+  waitingMinutes?: number;
+}
+
+export interface SlabCharge {
+  fromKm: number;
+  toKm: number;
+  ratePerKm: number;
+  amount: number;
+}
+
+export interface FareBreakdown {
+  minimumFare: number;
+  slabCharges: SlabCharge[];
+  distanceFare: number;
+  chargeableWaitingMinutes: number;
+  waitingCharge: number;
+  subtotal: number;
+  nightFraction: number;
+  nightSurcharge: number;
+  roundingAdjustment: number;
+  total: number;
+}
+
+// Default Kerala auto rickshaw tariff: ₹30 for the first 1.5 km, ₹15/km after, 50% extra at night
+export const DEFAULT_TARIFF: Tariff = {
+  name: 'Kerala',
+  presetId: 'kerala-2022',
+  minimumFare: 30,
+  baseDistance: 1.5,
+  slabs: [{ upToKm: null, ratePerKm: 15 }],
+  waiting: { ratePerMinute: 0, freeMinutes: 0, speedThresholdKmh: 5 },
+  night: { multiplier: 1.5, startHour: 22, endHour: 5, policy: 'trip-start' },
+  rounding: { mode: 'nearest', step: 1 },
+};
+
+export const roundFare = (amount: number, rule: RoundingRule): number => {
+  const step = rule.step > 0 ? rule.step : 1;
+  const units = amount / step;
+  // Strip floating point noise so 45.00000001 doesn't round up a whole step
+  const cleaned = Math.round(units * 1e6) / 1e6;
+  switch (rule.mode) {
+    case 'up':
+      return Math.ceil(cleaned) * step;
+    case 'down':
+      return Math.floor(cleaned) * step;
+    default:
+      return Math.round(cleaned) * step;
+  }
+};
+
+export const calculateFareBreakdown = (tariff: Tariff, input: FareInput): FareBreakdown => {
+  const distanceKm = Math.max(0, input.distanceKm);
+  const slabCharges: SlabCharge[] = [];
+
+  // Walk the slabs in order, charging the part of the trip that falls inside each one
+  let fromKm = tariff.baseDistance;
+  for (const slab of tariff.slabs) {
+    if (distanceKm <= fromKm) break;
+    const slabEnd = slab.upToKm ?? Infinity;
+    if (slabEnd <= fromKm) continue;
+    const toKm = Math.min(distanceKm, slabEnd);
+    slabCharges.push({
+      fromKm,
+      toKm,
+      ratePerKm: slab.ratePerKm,
+      amount: (toKm - fromKm) * slab.ratePerKm,
+    });
+    fromKm = toKm;
+  }
+
+  const distanceFare = tariff.minimumFare + slabCharges.reduce((sum, charge) => sum + charge.amount, 0);
+  const chargeableWaitingMinutes = Math.max(0, (input.waitingMinutes ?? 0) - tariff.waiting.freeMinutes);
+  const waitingCharge = chargeableWaitingMinutes * tariff.waiting.ratePerMinute;
+  const subtotal = distanceFare + waitingCharge;
+  const nightFraction = Math.min(1, Math.max(0, input.nightFraction));
+  const nightSurcharge = subtotal * (tariff.night.multiplier - 1) * nightFraction;
+  const unrounded = subtotal + nightSurcharge;
+  const total = roundFare(unrounded, tariff.rounding);
+
+  return {
+    minimumFare: tariff.minimumFare,
+    slabCharges,
+    distanceFare,
+    chargeableWaitingMinutes,
+    waitingCharge,
+    subtotal,
+    nightFraction,
+    nightSurcharge,
+    roundingAdjustment: total - unrounded,
+    total,
+  };
+};
+
+export const calculateFare = (tariff: Tariff, input: FareInput): number =>
+  calculateFareBreakdown(tariff, input).total;
+
+export interface FareLeg {
+  distanceKm: number;
+  waitingMinutes: number; // Waiting at the stop this leg ends at
+}
+
+// A multi-stop trip is one metered ride, so the minimum fare, slabs and free waiting apply to the
+// whole trip. Each leg is charged what it adds to the running total, and the legs sum to the total.
+export const splitFareByLeg = (tariff: Tariff, legs: FareLeg[], nightFraction: number): number[] => {
+  let distanceKm = 0;
+  let waitingMinutes = 0;
+  let previousTotal = 0;
+  return legs.map(leg => {
+    distanceKm += leg.distanceKm;
+    waitingMinutes += leg.waitingMinutes;
+    const total = calculateFare(tariff, { distanceKm, nightFraction, waitingMinutes });
+    const legFare = total - previousTotal;
+    previousTotal = total;
+    return legFare;
+  });
+};
+
+export const nightSurchargePercent = (tariff: Tariff): number =>
+  Math.round((tariff.night.multiplier - 1) * 100);
+
+// Human readable range for a slab, e.g. "1.5–5 km" or "Above 5 km"
+export const describeSlab = (tariff: Tariff, index: number): string => {
+  const fromKm = index === 0 ? tariff.baseDistance : tariff.slabs[index - 1].upToKm ?? tariff.baseDistance;
+  const upToKm = tariff.slabs[index].upToKm;
+  return upToKm === null ? `Above ${fromKm} km` : `${fromKm}–${upToKm} km`;
+};
+
+export const isNightTime = (rule: NightRule, date: Date = new Date()): boolean => {
+  const hour = date.getHours();
+  if (rule.startHour === rule.endHour) return false;
+  if (rule.startHour < rule.endHour) {
+    return hour >= rule.startHour && hour < rule.endHour;
+  }
+  return hour >= rule.startHour || hour < rule.endHour; // Wraps past midnight
+};
+
+// Night share for a trip that hasn't happened yet, assuming a steady speed over its duration
+export const planNightFraction = (rule: NightRule, departure: Date, durationMinutes: number): number => {
+  if (rule.policy === 'trip-start' || durationMinutes <= 0) {
+    return isNightTime(rule, departure) ? 1 : 0;
+  }
+  const steps = Math.max(1, Math.ceil(durationMinutes));
+  const stepMs = (durationMinutes * 60000) / steps;
+  let nightSteps = 0;
+  for (let i = 0; i < steps; i++) {
+    // Sample the middle of each minute of the trip
+    if (isNightTime(rule, new Date(departure.getTime() + (i + 0.5) * stepMs))) nightSteps++;
+  }
+  return nightSteps / steps;
+};
+
+// Night share for a ride on the meter, from how much of the distance so far was driven at night
+export const meteredNightFraction = (
+  rule: NightRule,
+  startedAt: Date,
+  distanceKm: number,
+  nightDistanceKm: number,
+  now: Date = new Date()
+): number => {
+  if (rule.policy === 'trip-start') {
+    return isNightTime(rule, startedAt) ? 1 : 0;
+  }
+  if (distanceKm <= 0) {
+    return isNightTime(rule, now) ? 1 : 0;
+  }
+  return Math.min(nightDistanceKm, distanceKm) / distanceKm;
+};
+
+export const formatHour = (hour: number): string => {
+  if (hour === 0) return '12 AM';
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+// e.g. "10 PM - 5 AM"
+export const describeNightWindow = (rule: NightRule): string =>
+  `${formatHour(rule.startHour)} - ${formatHour(rule.endHour)}`;
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const ROUNDING_MODES: RoundingMode[] = ['nearest', 'up', 'down'];
+
+// Accepts anything read from storage, including the old { baseFare, baseDistance, ratePerKm } shape
+export const normalizeTariff = (raw: unknown): Tariff => {
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_TARIFF;
+  }
+  const value = asRecord(raw);
+
+  if (!Array.isArray(value.slabs)) {
+    return {
+      ...DEFAULT_TARIFF,
+      name: 'Custom',
+      minimumFare: toNumber(value.baseFare, DEFAULT_TARIFF.minimumFare),
+      baseDistance: toNumber(value.baseDistance, DEFAULT_TARIFF.baseDistance),
+      slabs: [{ upToKm: null, ratePerKm: toNumber(value.ratePerKm, DEFAULT_TARIFF.slabs[0].ratePerKm) }],
+    };
+  }
+
+  const slabs: DistanceSlab[] = value.slabs.map((entry: unknown) => {
+    const slab = asRecord(entry);
+    return {
+      upToKm: typeof slab.upToKm === 'number' ? slab.upToKm : null,
+      ratePerKm: toNumber(slab.ratePerKm, 0),
+    };
+  });
+  const waiting = asRecord(value.waiting);
+  const night = asRecord(value.night);
+  const rounding = asRecord(value.rounding);
+
+  return {
+    name: typeof value.name === 'string' ? value.name : 'Custom',
+    presetId: typeof value.presetId === 'string' ? value.presetId : undefined,
+    minimumFare: toNumber(value.minimumFare, DEFAULT_TARIFF.minimumFare),
+    baseDistance: toNumber(value.baseDistance, DEFAULT_TARIFF.baseDistance),
+    slabs: slabs.length > 0 ? slabs : DEFAULT_TARIFF.slabs,
+    waiting: {
+      ratePerMinute: toNumber(waiting.ratePerMinute, DEFAULT_TARIFF.waiting.ratePerMinute),
+      freeMinutes: toNumber(waiting.freeMinutes, DEFAULT_TARIFF.waiting.freeMinutes),
+      speedThresholdKmh: toNumber(waiting.speedThresholdKmh, DEFAULT_TARIFF.waiting.speedThresholdKmh),
+    },
+    night: {
+      multiplier: toNumber(night.multiplier, DEFAULT_TARIFF.night.multiplier),
+      startHour: toNumber(night.startHour, DEFAULT_TARIFF.night.startHour),
+      endHour: toNumber(night.endHour, DEFAULT_TARIFF.night.endHour),
+      policy: night.policy === 'split-by-time' ? 'split-by-time' : 'trip-start',
+    },
+    rounding: {
+      mode: ROUNDING_MODES.find(mode => mode === rounding.mode) ?? 'nearest',
+      step: toNumber(rounding.step, DEFAULT_TARIFF.rounding.step),
+    },
+  };
+};
+
+// A breakdown saved with a trip. Missing amounts read as 0, so an old or damaged trip still shows.
+export const normalizeFareBreakdown = (raw: unknown): FareBreakdown => {
+  const value = asRecord(raw);
+  const amount = (field: keyof FareBreakdown) => toNumber(value[field], 0);
+  return {
+    minimumFare: amount('minimumFare'),
+    slabCharges: asArray(value.slabCharges).map(entry => {
+      const charge = asRecord(entry);
+      return {
+        fromKm: toNumber(charge.fromKm, 0),
+        toKm: toNumber(charge.toKm, 0),
+        ratePerKm: toNumber(charge.ratePerKm, 0),
+        amount: toNumber(charge.amount, 0),
+      };
+    }),
+    distanceFare: amount('distanceFare'),
+    chargeableWaitingMinutes: amount('chargeableWaitingMinutes'),
+    waitingCharge: amount('waitingCharge'),
+    subtotal: amount('subtotal'),
+    nightFraction: amount('nightFraction'),
+    nightSurcharge: amount('nightSurcharge'),
+    roundingAdjustment: amount('roundingAdjustment'),
+    total: amount('total'),
+  };
+};
+
+// Returns an error message, or null when the tariff can be saved
+export const validateTariff = (tariff: Tariff): string | null => {
+  // Fields left empty or half typed in the settings screen come through as NaN
+  const numbers = [
+    tariff.minimumFare,
+    tariff.baseDistance,
+    ...tariff.slabs.flatMap(slab => [slab.upToKm ?? 0, slab.ratePerKm]),
+    tariff.waiting.ratePerMinute,
+    tariff.waiting.freeMinutes,
+    tariff.waiting.speedThresholdKmh,
+    tariff.night.multiplier,
+    tariff.night.startHour,
+    tariff.night.endHour,
+    tariff.rounding.step,
+  ];
+  if (numbers.some(value => !Number.isFinite(value))) {
+    return 'Every fare setting needs a number';
+  }
+  if (tariff.minimumFare <= 0 || tariff.baseDistance <= 0) {
+    return 'Minimum fare and base distance must be greater than 0';
+  }
+  if (tariff.baseDistance > 10) {
+    return 'Base distance should not exceed 10 km';
+  }
+  if (tariff.slabs.length === 0 || tariff.slabs.some(slab => slab.ratePerKm <= 0)) {
+    return 'Every distance slab needs a rate greater than 0';
+  }
+  let previousEnd = tariff.baseDistance;
+  for (const [index, slab] of tariff.slabs.entries()) {
+    const isLast = index === tariff.slabs.length - 1;
+    if (slab.upToKm === null) {
+      if (!isLast) return 'Only the last slab can be open-ended';
+      continue;
+    }
+    if (slab.upToKm <= previousEnd) {
+      return 'Each slab must end further than the one before it';
+    }
+    previousEnd = slab.upToKm;
+  }
+  if (tariff.slabs[tariff.slabs.length - 1].upToKm !== null) {
+    return 'The last slab must have no upper limit';
+  }
+  if (tariff.waiting.ratePerMinute < 0 || tariff.waiting.freeMinutes < 0) {
+    return 'Waiting charges cannot be negative';
+  }
+  if (tariff.waiting.speedThresholdKmh <= 0) {
+    return 'Waiting speed threshold must be greater than 0';
+  }
+  if (tariff.night.multiplier < 1) {
+    return 'Night surcharge cannot be negative';
+  }
+  const isValidHour = (hour: number) => Number.isInteger(hour) && hour >= 0 && hour <= 23;
+  if (!isValidHour(tariff.night.startHour) || !isValidHour(tariff.night.endHour)) {
+    return 'Night hours must be whole hours between 0 and 23';
+  }
+  if (tariff.rounding.step <= 0) {
+    return 'Rounding step must be greater than 0';
+  }
+  return null;
+};
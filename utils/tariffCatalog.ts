@@ -0,0 +1,139 @@
+import { Tariff, DEFAULT_TARIFF } from '@/utils/tariff';
+
+// Bump when presets are added or revised. Settings shows it so a user can tell which edition of the
+// fare tables their build carries; stored tariffs are not checked against it.
+export const TARIFF_CATALOG_VERSION = 3;
+
+export interface TariffPreset {
+  id: string;
+  region: string; // State or city the tariff applies to
+  effectiveFrom: string; // ISO date the notification came into force
+  source: string;
+  notes?: string;
+  supersededBy?: string; // id of the newer preset for the same region
+  tariff: Tariff;
+}
+
+// Official fare notifications for auto rickshaws. Rates change every few years, so
+// check the latest transport department order before relying on an older entry.
+export const TARIFF_PRESETS: TariffPreset[] = [
+  {
+    id: 'kerala-2022',
+    region: 'Kerala',
+    effectiveFrom: '2022-05-01',
+    source: 'Kerala Motor Vehicles Department fare revision, 2022',
+    notes: 'Statewide rate',
+    tariff: DEFAULT_TARIFF,
+  },
+  {
+    id: 'bengaluru-2021',
+    region: 'Bengaluru',
+    effectiveFrom: '2021-12-01',
+    source: 'Bengaluru Urban District Transport Authority order, 2021',
+    notes: 'Waiting: first 5 min free, ₹5 per 15 min after',
+    supersededBy: 'bengaluru-2025',
+    tariff: {
+      name: 'Bengaluru (2021)',
+      presetId: 'bengaluru-2021',
+      minimumFare: 30,
+      baseDistance: 2,
+      slabs: [{ upToKm: null, ratePerKm: 15 }],
+      waiting: { ratePerMinute: 0.33, freeMinutes: 5, speedThresholdKmh: 5 },
+      night: { multiplier: 1.5, startHour: 22, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+  {
+    id: 'bengaluru-2025',
+    region: 'Bengaluru',
+    effectiveFrom: '2025-08-01',
+    source: 'Bengaluru Urban District Transport Authority order, 2025',
+    notes: 'Waiting: first 5 min free, ₹10 per 15 min after',
+    tariff: {
+      name: 'Bengaluru',
+      presetId: 'bengaluru-2025',
+      minimumFare: 36,
+      baseDistance: 2,
+      slabs: [{ upToKm: null, ratePerKm: 18 }],
+      waiting: { ratePerMinute: 0.67, freeMinutes: 5, speedThresholdKmh: 5 },
+      night: { multiplier: 1.5, startHour: 22, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+  {
+    id: 'chennai-2013',
+    region: 'Chennai',
+    effectiveFrom: '2013-08-26',
+    source: 'Government of Tamil Nadu G.O. on auto rickshaw fares, 2013',
+    notes: 'Waiting: ₹3.50 per 5 min',
+    tariff: {
+      name: 'Chennai',
+      presetId: 'chennai-2013',
+      minimumFare: 25,
+      baseDistance: 1.8,
+      slabs: [{ upToKm: null, ratePerKm: 12 }],
+      waiting: { ratePerMinute: 0.7, freeMinutes: 0, speedThresholdKmh: 5 },
+      night: { multiplier: 1.5, startHour: 23, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+  {
+    id: 'mumbai-2025',
+    region: 'Mumbai (MMR)',
+    effectiveFrom: '2025-02-01',
+    source: 'Mumbai Metropolitan Region Transport Authority fare revision, 2025',
+    tariff: {
+      name: 'Mumbai',
+      presetId: 'mumbai-2025',
+      minimumFare: 26,
+      baseDistance: 1.5,
+      slabs: [{ upToKm: null, ratePerKm: 17.14 }],
+      waiting: { ratePerMinute: 1, freeMinutes: 0, speedThresholdKmh: 5 },
+      night: { multiplier: 1.25, startHour: 0, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+  {
+    id: 'delhi-2022',
+    region: 'Delhi',
+    effectiveFrom: '2022-06-01',
+    source: 'Government of NCT of Delhi Transport Department notification, 2022',
+    notes: 'Waiting: ₹0.75 per min',
+    tariff: {
+      name: 'Delhi',
+      presetId: 'delhi-2022',
+      minimumFare: 30,
+      baseDistance: 1.5,
+      slabs: [{ upToKm: null, ratePerKm: 11 }],
+      waiting: { ratePerMinute: 0.75, freeMinutes: 0, speedThresholdKmh: 5 },
+      night: { multiplier: 1.25, startHour: 23, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+  {
+    id: 'pune-2022',
+    region: 'Pune',
+    effectiveFrom: '2022-09-01',
+    source: 'Pune Regional Transport Authority fare revision, 2022',
+    tariff: {
+      name: 'Pune',
+      presetId: 'pune-2022',
+      minimumFare: 25,
+      baseDistance: 1.5,
+      slabs: [{ upToKm: null, ratePerKm: 17 }],
+      waiting: { ratePerMinute: 0.5, freeMinutes: 0, speedThresholdKmh: 5 },
+      night: { multiplier: 1.25, startHour: 0, endHour: 5, policy: 'trip-start' },
+      rounding: { mode: 'nearest', step: 1 },
+    },
+  },
+];
+
+export const findTariffPreset = (id: string | undefined): TariffPreset | undefined =>
+  TARIFF_PRESETS.find(preset => preset.id === id);
+
+// Latest preset first for each region, older notifications after it
+export const getTariffPresets = (): TariffPreset[] =>
+  [...TARIFF_PRESETS].sort((a, b) => {
+    if (a.region !== b.region) return a.region.localeCompare(b.region);
+    return b.effectiveFrom.localeCompare(a.effectiveFrom);
+  });
@@ -0,0 +1,183 @@
+import { TrackPoint } from '@/utils/tripHistory';
+import { GpsFix, toFixStatus } from '@/utils/gpsFilter';
+import { asArray, asRecord } from '@/utils/narrow';
+
+// GPX and GeoJSON conversion for recorded meter tracks. Parsing uses plain regexes
+// because there's no DOMParser on native.
+
+export type TrackFormat = 'gpx' | 'geojson';
+
+export const TRACK_MIME_TYPES: Record<TrackFormat, string> = {
+  gpx: 'application/gpx+xml',
+  geojson: 'application/geo+json',
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const trackFilename = (startedAt: number, format: TrackFormat) => {
+  const stamp = new Date(startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `aye-auto-track-${stamp}.${format}`;
+};
+
+// Accuracy and filter status go in <extensions> so a re-import keeps them
+export const toGpx = (points: TrackPoint[], name = 'Aye Auto trip'): string => {
+  const trackPoints = points.map(point => {
+    const extensions = [
+      point.accuracy !== null ? `<accuracy>${point.accuracy}</accuracy>` : '',
+      point.status ? `<status>${point.status}</status>` : '',
+    ].join('');
+    return [
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`,
+      `<time>${new Date(point.timestamp).toISOString()}</time>`,
+      extensions ? `<extensions>${extensions}</extensions>` : '',
+      '</trkpt>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Aye Auto" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name>` +
+      (points.length > 0 ? `<time>${new Date(points[0].timestamp).toISOString()}</time>` : '') +
+      '</metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+// A single LineString feature, with per-point times, accuracies and statuses as parallel arrays
+export const toGeoJson = (points: TrackPoint[], name = 'Aye Auto trip'): string =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {
+            name,
+            times: points.map(point => new Date(point.timestamp).toISOString()),
+            accuracies: points.map(point => point.accuracy),
+            statuses: points.map(point => point.status ?? null),
+          },
+          geometry: {
+            type: 'LineString',
+            coordinates: points.map(point => [point.longitude, point.latitude]),
+          },
+        },
+      ],
+    },
+    null,
+    2
+  );
+
+export const formatTrack = (points: TrackPoint[], format: TrackFormat, name?: string) =>
+  format === 'gpx' ? toGpx(points, name) : toGeoJson(points, name);
+
+const readTag = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? unescapeXml(match[1].trim()) : null;
+};
+
+const readAttribute = (attributes: string, name: string): number => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? parseFloat(match[1]) : NaN;
+};
+
+const parseTime = (value: unknown): number => (typeof value === 'string' ? Date.parse(value) : NaN);
+
+// Replaying needs real timestamps, otherwise the speed checks in the filter are meaningless
+const checkTimestamps = (points: TrackPoint[]): TrackPoint[] => {
+  if (points.length === 0) {
+    throw new Error('The file does not contain any track points');
+  }
+  if (points.some(point => isNaN(point.timestamp))) {
+    throw new Error('Every track point needs a timestamp to be replayed');
+  }
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const parseGpx = (xml: string): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  const pointPattern = /<(?:\w+:)?trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?trkpt>)/g;
+
+  for (const match of xml.matchAll(pointPattern)) {
+    const latitude = readAttribute(match[1], 'lat');
+    const longitude = readAttribute(match[1], 'lon');
+    if (isNaN(latitude) || isNaN(longitude)) continue;
+
+    const body = match[2] ?? '';
+    const accuracy = parseFloat(readTag(body, 'accuracy') ?? '');
+    points.push({
+      latitude,
+      longitude,
+      timestamp: parseTime(readTag(body, 'time')),
+      accuracy: isNaN(accuracy) ? null : accuracy,
+      status: toFixStatus(readTag(body, 'status')),
+    });
+  }
+
+  return checkTimestamps(points);
+};
+
+export const parseGeoJson = (json: string): TrackPoint[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid GeoJSON');
+  }
+
+  const root = asRecord(data);
+  const features = root.type === 'FeatureCollection' ? asArray(root.features).map(asRecord) : [root];
+  const line = features.find(feature => asRecord(feature.geometry).type === 'LineString');
+  if (!line) {
+    throw new Error('The GeoJSON file has no LineString track');
+  }
+
+  const properties = asRecord(line.properties);
+  // togeojson and similar tools put the times under coordinateProperties
+  const times = asArray(properties.times ?? asRecord(properties.coordinateProperties).times);
+  const accuracies = asArray(properties.accuracies);
+  const statuses = asArray(properties.statuses);
+
+  const points = asArray(asRecord(line.geometry).coordinates).flatMap((coordinate, index) => {
+    const [longitude, latitude] = asArray(coordinate);
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return [];
+    const accuracy = accuracies[index];
+    return [{
+      latitude,
+      longitude,
+      timestamp: parseTime(times[index]),
+      accuracy: typeof accuracy === 'number' ? accuracy : null,
+      status: toFixStatus(statuses[index]),
+    }];
+  });
+
+  return checkTimestamps(points);
+};
+
+// Picks the parser from the content rather than the file name, which isn't always available
+export const parseTrack = (contents: string): TrackPoint[] =>
+  contents.trimStart().startsWith('<') ? parseGpx(contents) : parseGeoJson(contents);
+
+export const toGpsFixes = (points: TrackPoint[]): GpsFix[] =>
+  points.map(({ latitude, longitude, accuracy, timestamp }) => ({ latitude, longitude, accuracy, timestamp }));
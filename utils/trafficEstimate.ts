@@ -0,0 +1,41 @@
+// Predicts how much of a planned ride is spent crawling in traffic, so the planner can charge it
+// as waiting. The meter counts waiting while the auto moves slower than the tariff's threshold,
+// and in city traffic nearly all the time lost against a free-flowing road is spent that way.
+
+export type TrafficSource = 'live' | 'typical';
+
+export interface TrafficEstimate {
+  freeFlowMinutes: number;
+  trafficMinutes: number; // Expected driving time at the departure time
+  predictedWaitingMinutes: number; // The difference, charged as waiting
+  source: TrafficSource; // live: from the route provider, typical: from the hour-of-day table
+}
+
+// How much longer a drive typically takes than on an empty road, by hour of the day. Based on
+// the usual morning and evening peaks in Kerala towns; OSRM and GraphHopper only know free flow.
+const TYPICAL_CONGESTION_BY_HOUR = [
+  1.0, 1.0, 1.0, 1.0, 1.0, 1.0, // 12 AM - 6 AM
+  1.1, 1.3, 1.6, 1.6, 1.5, 1.3, // 6 AM - 12 PM
+  1.3, 1.3, 1.3, 1.4, 1.5, 1.7, // 12 PM - 6 PM
+  1.7, 1.6, 1.4, 1.3, 1.1, 1.0, // 6 PM - 12 AM
+];
+
+export const typicalCongestion = (departure: Date): number =>
+  TYPICAL_CONGESTION_BY_HOUR[departure.getHours()];
+
+export const estimateTraffic = (
+  route: { durationMinutes: number; durationInTrafficMinutes?: number },
+  departure: Date
+): TrafficEstimate => {
+  const freeFlowMinutes = route.durationMinutes;
+  const live = route.durationInTrafficMinutes;
+  const trafficMinutes = live !== undefined
+    ? Math.max(live, freeFlowMinutes)
+    : freeFlowMinutes * typicalCongestion(departure);
+  return {
+    freeFlowMinutes,
+    trafficMinutes,
+    predictedWaitingMinutes: trafficMinutes - freeFlowMinutes,
+    source: live !== undefined ? 'live' : 'typical',
+  };
+};
@@ -0,0 +1,268 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FareBreakdown, Tariff, normalizeFareBreakdown, normalizeTariff } from '@/utils/tariff';
+import { FixStatus, toFixStatus } from '@/utils/gpsFilter';
+import { MeterSegment, normalizeSegments } from '@/utils/meterSegments';
+import { DistanceOverride, DistanceSource, normalizeDistanceOverride } from '@/utils/manualDistance';
+import { asArray, asNumber, asRecord, asString } from '@/utils/narrow';
+
+const STORAGE_KEY = 'tripHistory';
+const TRACK_KEY_PREFIX = 'tripTrack:'; // Followed by the trip id
+const MAX_TRIPS = 500; // Oldest trips are dropped beyond this so storage doesn't grow forever
+// Tracks are most of the history's size and web's localStorage only holds about 5 MB across all
+// keys, so just the newest trips keep one, thinned to a bounded number of points
+const MAX_TRACKS = 20;
+const MAX_TRACK_POINTS = 1000;
+
+export type TripKind = 'meter' | 'estimate';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  accuracy: number | null;
+  status?: FixStatus; // How the noise filter treated this fix, missing on older trips
+}
+
+export interface TripRecord {
+  id: string;
+  kind: TripKind;
+  startedAt: number; // Epoch ms
+  endedAt: number;
+  distanceKm: number;
+  durationSeconds: number;
+  waitingSeconds: number;
+  fare: number;
+  breakdown: FareBreakdown;
+  tariff: Tariff;
+  source: string | null;
+  destination: string | null;
+  stops?: string[]; // Intermediate stops of a multi-stop estimate, in order
+  segments?: MeterSegment[]; // Running, paused and waiting stretches of a metered ride
+  distanceSource?: DistanceSource; // Missing on older trips, which were all GPS
+  distanceOverride?: DistanceOverride; // The readings or correction that replaced the GPS distance
+  track: TrackPoint[];
+}
+
+// A trip as kept in the history index. Its track is stored under its own key, see loadTripTrack.
+export type SavedTrip = Omit<TripRecord, 'track'> & {
+  trackPointCount: number; // 0 once the track has been dropped
+};
+
+export type TripPeriod = 'week' | 'month';
+
+export interface PeriodTotal {
+  key: string;
+  label: string;
+  tripCount: number;
+  distanceKm: number;
+  fare: number;
+}
+
+export const createTripId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const trackKey = (id: string) => `${TRACK_KEY_PREFIX}${id}`;
+
+// Keeps every nth fix, plus the last one so the track still ends where the ride did
+const thinTrack = (track: TrackPoint[], maxPoints = MAX_TRACK_POINTS): TrackPoint[] => {
+  if (track.length <= maxPoints) return track;
+  const step = Math.ceil(track.length / (maxPoints - 1));
+  const last = track.length - 1;
+  return track.filter((_, index) => index % step === 0 || index === last);
+};
+
+// Returns how many points were stored. A track that doesn't fit is dropped rather than losing
+// the whole trip with it.
+const writeTrack = async (id: string, track: TrackPoint[]): Promise<number> => {
+  if (track.length === 0) return 0;
+  const thinned = thinTrack(track);
+  try {
+    await AsyncStorage.setItem(trackKey(id), JSON.stringify(thinned));
+    return thinned.length;
+  } catch (error) {
+    console.error('Error saving trip track:', error);
+    return 0;
+  }
+};
+
+// Drops trips beyond MAX_TRIPS and tracks beyond MAX_TRACKS, newest first
+const writeTrips = async (trips: SavedTrip[]): Promise<SavedTrip[]> => {
+  const kept = trips.slice(0, MAX_TRIPS);
+  const expiredTracks = new Set(
+    kept.filter(trip => trip.trackPointCount > 0).slice(MAX_TRACKS).map(trip => trip.id)
+  );
+  const droppedTracks = [
+    ...trips.slice(MAX_TRIPS).filter(trip => trip.trackPointCount > 0).map(trip => trip.id),
+    ...expiredTracks,
+  ];
+  // Free the space first, the index write may need it
+  if (droppedTracks.length > 0) {
+    await AsyncStorage.multiRemove(droppedTracks.map(trackKey));
+  }
+
+  const updated = kept.map(trip => (expiredTracks.has(trip.id) ? { ...trip, trackPointCount: 0 } : trip));
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+const DISTANCE_SOURCES: DistanceSource[] = ['gps', 'odometer', 'gps-corrected'];
+
+export const normalizeTrackPoint = (raw: unknown): TrackPoint | null => {
+  const value = asRecord(raw);
+  const latitude = asNumber(value.latitude);
+  const longitude = asNumber(value.longitude);
+  const timestamp = asNumber(value.timestamp);
+  if (latitude === null || longitude === null || timestamp === null) return null;
+  return { latitude, longitude, timestamp, accuracy: asNumber(value.accuracy), status: toFixStatus(value.status) };
+};
+
+export const normalizeTrack = (raw: unknown): TrackPoint[] =>
+  asArray(raw)
+    .map(normalizeTrackPoint)
+    .filter((point): point is TrackPoint => point !== null);
+
+// Entries that aren't a trip at all are dropped, optional details fall back to their defaults
+const normalizeSavedTrip = (raw: unknown): SavedTrip | null => {
+  const value = asRecord(raw);
+  const id = asString(value.id);
+  const startedAt = asNumber(value.startedAt);
+  if (!id || startedAt === null || (value.kind !== 'meter' && value.kind !== 'estimate')) return null;
+
+  const number = (field: string) => asNumber(value[field]) ?? 0;
+  return {
+    id,
+    kind: value.kind,
+    startedAt,
+    endedAt: asNumber(value.endedAt) ?? startedAt,
+    distanceKm: number('distanceKm'),
+    durationSeconds: number('durationSeconds'),
+    waitingSeconds: number('waitingSeconds'),
+    fare: number('fare'),
+    breakdown: normalizeFareBreakdown(value.breakdown),
+    tariff: normalizeTariff(value.tariff),
+    source: asString(value.source),
+    destination: asString(value.destination),
+    stops: Array.isArray(value.stops) ? value.stops.filter(stop => typeof stop === 'string') : undefined,
+    segments: Array.isArray(value.segments) ? normalizeSegments(value.segments, startedAt) : undefined,
+    distanceSource: DISTANCE_SOURCES.find(source => source === value.distanceSource),
+    distanceOverride: normalizeDistanceOverride(value.distanceOverride),
+    trackPointCount: number('trackPointCount'),
+  };
+};
+
+// Throws when the history can't be read, so the write paths never save over it
+const readTrips = async (): Promise<SavedTrip[]> => {
+  const saved = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  const parsed: unknown = JSON.parse(saved);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Trip history is not a list');
+  }
+  return parsed
+    .map(normalizeSavedTrip)
+    .filter((trip): trip is SavedTrip => trip !== null)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadTrips = async (): Promise<SavedTrip[]> => {
+  try {
+    return await readTrips();
+  } catch (error) {
+    console.error('Error loading trip history:', error);
+    return [];
+  }
+};
+
+export const loadTripTrack = async (id: string): Promise<TrackPoint[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(trackKey(id));
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      return normalizeTrack(parsed);
+    }
+  } catch (error) {
+    console.error('Error loading trip track:', error);
+  }
+  return [];
+};
+
+export const saveTrip = async ({ track, ...trip }: TripRecord): Promise<SavedTrip[]> => {
+  const trips = await readTrips();
+  const trackPointCount = await writeTrack(trip.id, track);
+  const updated = [{ ...trip, trackPointCount }, ...trips.filter(existing => existing.id !== trip.id)]
+    .sort((a, b) => b.startedAt - a.startedAt);
+  return writeTrips(updated);
+};
+
+export const deleteTrip = async (id: string): Promise<SavedTrip[]> => {
+  const trips = await readTrips();
+  await AsyncStorage.removeItem(trackKey(id));
+  return writeTrips(trips.filter(trip => trip.id !== id));
+};
+
+export const clearTrips = async (): Promise<void> => {
+  const trips = await loadTrips();
+  await AsyncStorage.multiRemove([STORAGE_KEY, ...trips.map(trip => trackKey(trip.id))]);
+};
+
+export const searchTrips = (trips: SavedTrip[], query: string): SavedTrip[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return trips;
+
+  return trips.filter(trip => {
+    const haystack = [
+      trip.source,
+      trip.destination,
+      ...(trip.stops ?? []),
+      trip.tariff.name,
+      trip.kind === 'meter' ? 'meter' : 'estimate',
+      new Date(trip.startedAt).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' }),
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return haystack.includes(needle);
+  });
+};
+
+// Weeks start on Monday
+const startOfPeriod = (timestamp: number, period: TripPeriod): Date => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'month') {
+    date.setDate(1);
+  } else {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+  }
+  return date;
+};
+
+// Totals of metered rides only; estimates are never actually paid
+export const summarizeTrips = (trips: SavedTrip[], period: TripPeriod): PeriodTotal[] => {
+  const totals = new Map<string, PeriodTotal & { start: number }>();
+
+  for (const trip of trips) {
+    if (trip.kind !== 'meter') continue;
+    const start = startOfPeriod(trip.startedAt, period);
+    const key = start.toISOString();
+    const existing = totals.get(key) ?? {
+      key,
+      start: start.getTime(),
+      label: period === 'month'
+        ? start.toLocaleDateString([], { month: 'long', year: 'numeric' })
+        : `Week of ${start.toLocaleDateString([], { day: 'numeric', month: 'short' })}`,
+      tripCount: 0,
+      distanceKm: 0,
+      fare: 0,
+    };
+    existing.tripCount += 1;
+    existing.distanceKm += trip.distanceKm;
+    existing.fare += trip.fare;
+    totals.set(key, existing);
+  }
+
+  return [...totals.values()]
+    .sort((a, b) => b.start - a.start)
+    .map(({ start, ...total }) => total);
+};